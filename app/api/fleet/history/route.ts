@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFleetHistory } from '@/lib/services/fleet-history';
+import { isReportValidationError } from '@/lib/services/report-schema';
+
+/**
+ * API Route for a fleet's report snapshots as a time series
+ *
+ * Query: id (required), fiscalYear (default: fiscal year of the fleet's latest report)
+ * GET -> FleetHistory: IMR goal, YTD spend, projected EOY and variance per report date, failed runs marked
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const fleetId = searchParams.get('id');
+  const fiscalYearParam = searchParams.get('fiscalYear');
+
+  if (!fleetId) {
+    return NextResponse.json(
+      { error: 'Fleet ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const fiscalYear = fiscalYearParam ? Number(fiscalYearParam) : undefined;
+  if (fiscalYear !== undefined && !Number.isInteger(fiscalYear)) {
+    return NextResponse.json(
+      { error: `fiscalYear must be a year, e.g. 2026, got "${fiscalYearParam}"` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const history = await getFleetHistory(fleetId, fiscalYear);
+    if (!history) {
+      return NextResponse.json(
+        { error: `No reports found for fleet ${fleetId}. Run 'npm run scrape-monthly-report' first.`, fleetId },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(history);
+  } catch (error) {
+    if (isReportValidationError(error)) {
+      return NextResponse.json(
+        { error: `Malformed report file ${error.file}`, file: error.file, issues: error.issues },
+        { status: 422 }
+      );
+    }
+    console.error('Error reading fleet history:', error);
+    return NextResponse.json(
+      { error: 'Failed to load fleet history', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-import type { ForecastResult } from '@/lib/types';
+import { FORECAST_MODELS, getDefaultForecastModel, isForecastModelId } from '@/lib/services/forecast-models';
+import { describeMissingSnapshot, validateSnapshotSelection } from '@/lib/services/report-forecast';
+import { getFleetForecast } from '@/lib/services/fleet-forecast';
+import { loadFxRates } from '@/lib/services/fx-rates';
+import { convertForecastResult, getReportingCurrency, isCurrencyCode } from '@/lib/utils/currency';
+import { isReportValidationError } from '@/lib/services/report-schema';
 
 /**
  * API Route to get fleet forecast data
  * Reads from scraped reports if available, falls back to mock data
+ * Parent fleets are rolled up from their children's reports in the same snapshot (subFleets, rollupCheck);
+ * configured children without a report there are listed in missingSubFleetIds
+ *
+ * Query: id (required), model (forecast model id, default FORECAST_MODEL or run-rate),
+ *        currency (reporting currency, default REPORTING_CURRENCY or the fleet's own),
+ *        reportDate (exact snapshot, YYYY-MM-DD) or asOf (newest snapshot on or before, YYYY-MM-DD);
+ *        default the newest snapshot - see /api/reports
  */
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const fleetId = searchParams.get('id');
+  const modelParam = searchParams.get('model');
+  const currencyParam = searchParams.get('currency')?.toUpperCase();
+  const reportDateParam = searchParams.get('reportDate');
+  const asOfParam = searchParams.get('asOf');
 
   if (!fleetId) {
     return NextResponse.json(
@@ -18,59 +32,62 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  if (modelParam && !isForecastModelId(modelParam)) {
+    return NextResponse.json(
+      { error: `Unknown forecast model "${modelParam}"`, models: Object.keys(FORECAST_MODELS) },
+      { status: 400 }
+    );
+  }
+  const model = modelParam && isForecastModelId(modelParam) ? modelParam : getDefaultForecastModel();
+
+  if (currencyParam && !isCurrencyCode(currencyParam)) {
+    return NextResponse.json(
+      { error: `Unknown currency "${currencyParam}"` },
+      { status: 400 }
+    );
+  }
+  const currency = currencyParam || getReportingCurrency();
+
+  const selection = { reportDate: reportDateParam || undefined, asOf: asOfParam || undefined };
+  const selectionProblem = validateSnapshotSelection(selection);
+  if (selectionProblem) {
+    return NextResponse.json(
+      { error: selectionProblem },
+      { status: 400 }
+    );
+  }
+
   try {
-    // Try to find the most recent report for this fleet
-    const reportsDir = path.join(process.cwd(), 'reports');
-    
-    // Get all report directories, sorted by date (newest first)
-    const reportDirs = await fs.readdir(reportsDir);
-    const sortedDirs = reportDirs
-      .filter(dir => dir.match(/^\d{4}-\d{2}-\d{2}$/))
-      .sort()
-      .reverse();
+    // Re-projected with the requested model plus each fleet's recorded adjustments and goal revisions
+    const snapshot = await getFleetForecast(fleetId, { ...selection, model });
 
-    // Try to find fleet data in the most recent reports
-    for (const dir of sortedDirs) {
-      const fleetFile = path.join(reportsDir, dir, `fleet-${fleetId}.json`);
-      
-      try {
-        const fileContent = await fs.readFile(fleetFile, 'utf-8');
-        const scrapedData = JSON.parse(fileContent);
-        
-        // Transform scraped data to ForecastResult format
-        const forecast: ForecastResult = {
-          fleetId: scrapedData.fleetId,
-          fleetName: scrapedData.fleetName,
-          budget: scrapedData.imrGoal,
-          ytdSpend: scrapedData.ytdSpend,
-          forecastedEOYSpend: scrapedData.projectedEOY,
-          variance: scrapedData.variance,
-          variancePercentage: scrapedData.variancePercent,
-          isOverBudget: scrapedData.isOverBudget,
-          avgDailyBurnRate: scrapedData.monthlyBurnRate / 30, // Approximate
-          fiscalYearStart: new Date(`${scrapedData.fiscalYear}-01-01`),
-          fiscalYearEnd: new Date(`${scrapedData.fiscalYear}-12-31`),
-          daysElapsed: scrapedData.monthsElapsed * 30, // Approximate
-          monthlyBurnRates: generateMonthlyData(scrapedData),
-          subFleets: [],
-        };
+    if (!snapshot) {
+      // No scraped data found, return error
+      return NextResponse.json(
+        { error: describeMissingSnapshot(fleetId, selection), fleetId },
+        { status: 404 }
+      );
+    }
 
-        return NextResponse.json(forecast);
-      } catch (error) {
-        // File not found, try next directory
-        continue;
-      }
+    if (!currency) {
+      return NextResponse.json(snapshot);
     }
 
-    // No scraped data found, return error
-    return NextResponse.json(
-      {
-        error: `No scraped data found for fleet ${fleetId}. Run 'npm run scrape-monthly-report' first.`,
-        fleetId,
-      },
-      { status: 404 }
-    );
+    try {
+      return NextResponse.json(convertForecastResult(snapshot, currency, await loadFxRates()));
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Cannot report fleet ${fleetId} in ${currency}`, details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 400 }
+      );
+    }
   } catch (error) {
+    if (isReportValidationError(error)) {
+      return NextResponse.json(
+        { error: `Malformed report file ${error.file}`, file: error.file, issues: error.issues },
+        { status: 422 }
+      );
+    }
     console.error('Error reading fleet data:', error);
     return NextResponse.json(
       { error: 'Failed to load fleet data', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -78,45 +95,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-/**
- * Generate monthly breakdown data from scraped totals
- * Since we only have YTD totals, we'll create a simple distribution
- */
-function generateMonthlyData(scrapedData: any) {
-  const months = ['January', 'February', 'March', 'April', 'May', 'June', 
-                  'July', 'August', 'September', 'October', 'November', 'December'];
-  
-  const monthlyBurnRates = [];
-  const monthlySpend = scrapedData.ytdSpend / scrapedData.monthsElapsed;
-  
-  // Generate data for months elapsed
-  for (let i = 0; i < scrapedData.monthsElapsed && i < 12; i++) {
-    const monthName = `${months[i]} ${scrapedData.fiscalYear}`;
-    const daysInMonth = new Date(scrapedData.fiscalYear, i + 1, 0).getDate();
-    
-    monthlyBurnRates.push({
-      month: i + 1,
-      monthName,
-      totalSpend: monthlySpend,
-      daysInMonth,
-      dailyBurnRate: monthlySpend / daysInMonth,
-    });
-  }
-  
-  // Fill remaining months with zeros
-  for (let i = scrapedData.monthsElapsed; i < 12; i++) {
-    const monthName = `${months[i]} ${scrapedData.fiscalYear}`;
-    const daysInMonth = new Date(scrapedData.fiscalYear, i + 1, 0).getDate();
-    
-    monthlyBurnRates.push({
-      month: i + 1,
-      monthName,
-      totalSpend: 0,
-      daysInMonth,
-      dailyBurnRate: 0,
-    });
-  }
-  
-  return monthlyBurnRates;
-}
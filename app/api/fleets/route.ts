@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getFleetCatalog } from '@/lib/services/fleet-catalog';
+
+/**
+ * API Route for the fleet catalog
+ *
+ * GET -> FleetCatalogNode[] (top-level fleets, children nested) with each fleet's
+ *        configured budget, latest report date, headline status and last error;
+ *        malformed report files are skipped and listed in the fleet's invalidReports
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getFleetCatalog());
+  } catch (error) {
+    console.error('Error reading fleet catalog:', error);
+    return NextResponse.json(
+      { error: 'Failed to load fleet catalog', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
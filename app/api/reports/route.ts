@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { listReportSnapshots } from '@/lib/services/report-forecast';
+
+/**
+ * API Route listing the scraped report snapshots
+ *
+ * GET -> ReportSnapshot[] (newest first): each report date with every fleet's success or
+ *        failure and scrape time; pass a date to /api/fleet as reportDate to view it.
+ *        Malformed files are skipped and listed in the snapshot's invalidReports
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await listReportSnapshots());
+  } catch (error) {
+    console.error('Error listing reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to list reports', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultForecastModel } from '@/lib/services/forecast-models';
+import { deleteScenario, loadScenarios, saveScenario, validateScenarioInput, type ScenarioInput } from '@/lib/services/scenarios';
+
+/**
+ * API Route for saved what-if scenarios
+ *
+ * GET                                          -> Scenario[] (newest first)
+ * POST { name, rootFleetId, model?, changes }  -> Scenario (201)
+ * DELETE ?id=                                  -> { deleted: id }
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await loadScenarios());
+  } catch (error) {
+    console.error('Error reading scenarios:', error);
+    return NextResponse.json(
+      { error: 'Failed to load scenarios', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: Partial<ScenarioInput> & { name?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  // null, numbers and strings are valid JSON too
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  const problems = validateScenarioInput(body);
+  if (typeof body.name !== 'string' || !body.name.trim()) problems.unshift('name is required');
+  if (problems.length > 0) {
+    return NextResponse.json({ error: 'Invalid scenario', problems }, { status: 400 });
+  }
+
+  try {
+    const scenario = await saveScenario(body.name!, {
+      rootFleetId: body.rootFleetId!,
+      model: body.model ?? getDefaultForecastModel(),
+      changes: body.changes!,
+    });
+    return NextResponse.json(scenario, { status: 201 });
+  } catch (error) {
+    console.error('Error saving scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to save scenario', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'Scenario ID is required' }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteScenario(id))) {
+      return NextResponse.json({ error: `Scenario ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Error deleting scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete scenario', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultForecastModel } from '@/lib/services/forecast-models';
+import { runScenario, validateScenarioInput, type ScenarioInput } from '@/lib/services/scenarios';
+import { describeMissingSnapshot, validateSnapshotSelection, type SnapshotSelection } from '@/lib/services/report-forecast';
+import { isReportValidationError } from '@/lib/services/report-schema';
+
+/**
+ * API Route to run a what-if scenario
+ *
+ * POST { rootFleetId, model?, changes: [{ fleetId, fromMonth: 'YYYY-MM', multiplier?, monthlyCap? }], reportDate? | asOf? }
+ *   -> { rootFleetId, model, changes, reportDate, baseline, scenario, missingFleetIds }
+ * reportDate/asOf select the report snapshot like /api/fleet (default the newest)
+ */
+export async function POST(request: NextRequest) {
+  let body: Partial<ScenarioInput> & SnapshotSelection;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  // null, numbers and strings are valid JSON too
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  const selection = { reportDate: body.reportDate, asOf: body.asOf };
+  const problems = validateScenarioInput(body);
+  const selectionProblem = validateSnapshotSelection(selection);
+  if (selectionProblem) problems.push(selectionProblem);
+  if (problems.length > 0) {
+    return NextResponse.json({ error: 'Invalid scenario', problems }, { status: 400 });
+  }
+
+  try {
+    const result = await runScenario({
+      rootFleetId: body.rootFleetId!,
+      model: body.model ?? getDefaultForecastModel(),
+      changes: body.changes!,
+    }, selection);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: describeMissingSnapshot(body.rootFleetId!, selection) },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (isReportValidationError(error)) {
+      return NextResponse.json(
+        { error: `Malformed report file ${error.file}`, file: error.file, issues: error.issues },
+        { status: 422 }
+      );
+    }
+    console.error('Error running scenario:', error);
+    return NextResponse.json(
+      { error: 'Failed to run scenario', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,60 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { ForecastDisplay } from '@/components/dashboard/ForecastDisplay';
-import { FLEET_HIERARCHY } from '@/lib/config/fleet-hierarchy';
-import type { ForecastResult } from '@/lib/types';
+import type { FleetCatalogNode } from '@/lib/services/fleet-catalog';
+import type { FleetHistory } from '@/lib/services/fleet-history';
+import { DEFAULT_FORECAST_MODEL, FORECAST_MODELS } from '@/lib/services/forecast-models';
+import type { ForecastModelId, ForecastResult } from '@/lib/types';
+import { getFiscalCalendar } from '@/lib/utils/fiscal-calendar';
+
+/**
+ * Catalog tree as one flat list in selector order (each parent followed by its children)
+ */
+function flattenCatalog(nodes: FleetCatalogNode[], depth = 0): Array<{ fleet: FleetCatalogNode; depth: number }> {
+  return nodes.flatMap(fleet => [{ fleet, depth }, ...flattenCatalog(fleet.children, depth + 1)]);
+}
+
+/**
+ * Selector suffix for fleets that need attention: never scraped, last scrape failed, malformed report, or over budget
+ */
+function describeFleetStatus(fleet: FleetCatalogNode): string {
+  if (fleet.invalidReports) return ' · malformed report file';
+  if (fleet.lastError && (!fleet.latestReportDate || fleet.lastError.reportDate > fleet.latestReportDate)) {
+    return ` · last scrape failed (${fleet.lastError.code ?? 'error'})`;
+  }
+  if (!fleet.latestReportDate) return ' · no report yet';
+  return fleet.status === 'over' ? ' · over budget' : '';
+}
 
 export default function Home() {
-  const [fleetId, setFleetId] = useState('8304669');
+  const [fleets, setFleets] = useState<FleetCatalogNode[]>([]);
+  const [fleetId, setFleetId] = useState('');
+  const [model, setModel] = useState<ForecastModelId>(DEFAULT_FORECAST_MODEL);
   const [forecast, setForecast] = useState<ForecastResult | null>(null);
+  const [history, setHistory] = useState<FleetHistory | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    const loadFleets = async () => {
+      try {
+        const response = await fetch('/api/fleets');
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load fleets');
+        }
+        const catalog: FleetCatalogNode[] = await response.json();
+        setFleets(catalog);
+        setFleetId(current => current || catalog[0]?.id || '');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load fleets');
+      }
+    };
+    loadFleets();
+  }, []);
+
   const handleFetchForecast = async () => {
     if (!fleetId.trim()) {
       setError('Please select a fleet');
@@ -22,7 +66,7 @@ export default function Home() {
 
     try {
       // Call our API route which reads from scraped reports
-      const response = await fetch(`/api/fleet?id=${fleetId}`);
+      const response = await fetch(`/api/fleet?id=${fleetId}&model=${model}`);
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -34,11 +78,18 @@ export default function Home() {
       // Convert date strings back to Date objects
       result.fiscalYearStart = new Date(result.fiscalYearStart);
       result.fiscalYearEnd = new Date(result.fiscalYearEnd);
+      result.forecastDate = new Date(result.forecastDate);
+      result.pacing.exhaustionDate = result.pacing.exhaustionDate ? new Date(result.pacing.exhaustionDate) : null;
       
       setForecast(result);
+
+      // Projection history is optional - the forecast is shown without it
+      const historyResponse = await fetch(`/api/fleet/history?id=${fleetId}&fiscalYear=${getFiscalCalendar().getFiscalYear(result.fiscalYearStart)}`);
+      setHistory(historyResponse.ok ? await historyResponse.json() : null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch forecast');
       setForecast(null);
+      setHistory(null);
     } finally {
       setLoading(false);
     }
@@ -48,13 +99,18 @@ export default function Home() {
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       {/* Header */}
       <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-            IMR Budget Forecaster
-          </h1>
-          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-            Analyze and forecast infrastructure spending
-          </p>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              IMR Budget Forecaster
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Analyze and forecast infrastructure spending
+            </p>
+          </div>
+          <Link href="/scenarios" className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400">
+            What-if Scenarios →
+          </Link>
         </div>
       </header>
 
@@ -74,27 +130,25 @@ export default function Home() {
             >
               <option value="">-- Select a Fleet --</option>
               
-              {/* Parent Fleets */}
-              {FLEET_HIERARCHY.filter(f => f.type === 'parent').map(fleet => (
+              {flattenCatalog(fleets).map(({ fleet, depth }) => (
                 <option key={fleet.id} value={fleet.id}>
-                  {fleet.id} - {fleet.name} ({fleet.budget})
+                  {`${'\u00A0\u00A0'.repeat(depth)}${depth > 0 ? '↳ ' : ''}${fleet.id} - ${fleet.name}${fleet.budget ? ` (${fleet.budget})` : ''}${describeFleetStatus(fleet)}`}
                 </option>
               ))}
-              
-              {/* Child Fleets */}
-              {FLEET_HIERARCHY.filter(f => f.type === 'parent').map(parent => {
-                const children = FLEET_HIERARCHY.filter(f => f.parentId === parent.id);
-                return children.map(fleet => (
-                  <option key={fleet.id} value={fleet.id}>
-                    &nbsp;&nbsp;↳ {fleet.id} - {fleet.name} ({fleet.budget})
-                  </option>
-                ));
-              })}
-              
-              {/* Independent Fleets */}
-              {FLEET_HIERARCHY.filter(f => f.type === 'independent').map(fleet => (
-                <option key={fleet.id} value={fleet.id}>
-                  {fleet.id} - {fleet.name} ({fleet.budget})
+            </select>
+            
+            <select
+              id="forecastModel"
+              aria-label="Forecast model"
+              title={FORECAST_MODELS[model].description}
+              value={model}
+              onChange={(e) => setModel(e.target.value as ForecastModelId)}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              disabled={loading}
+            >
+              {Object.values(FORECAST_MODELS).map(forecastModel => (
+                <option key={forecastModel.id} value={forecastModel.id}>
+                  {forecastModel.name}
                 </option>
               ))}
             </select>
@@ -127,15 +181,19 @@ export default function Home() {
           <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
             <p>💡 Fleet Hierarchy:</p>
             <ul className="mt-1 ml-4 space-y-1">
-              <li>• <strong>8304669</strong> - Parent Fleet (Planning Automation And Optimization)</li>
-              <li className="ml-4">↳ 8305082, 8304674, 10089347, 8967127 - Child Fleets</li>
+              {fleets.filter(fleet => fleet.children.length > 0).map(parent => (
+                <li key={parent.id}>
+                  • <strong>{parent.id}</strong> - Parent Fleet ({parent.name})
+                  <div className="ml-4">↳ {parent.children.map(child => child.id).join(', ')} - Child Fleets</div>
+                </li>
+              ))}
             </ul>
             <p className="mt-2">Displays data from the most recent scraped report. Run <code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">npm run scrape-monthly-report</code> to update.</p>
           </div>
         </div>
 
         {/* Forecast Display */}
-        {forecast && <ForecastDisplay forecast={forecast} />}
+        {forecast && <ForecastDisplay forecast={forecast} history={history} />}
 
         {/* Empty State */}
         {!forecast && !loading && !error && (
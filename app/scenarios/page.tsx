@@ -0,0 +1,422 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { addMonths, format } from 'date-fns';
+import { FLEET_HIERARCHY, getFleetTree } from '@/lib/config/fleet-hierarchy';
+import { DEFAULT_FORECAST_MODEL, FORECAST_MODELS } from '@/lib/services/forecast-models';
+import type { ScenarioResult } from '@/lib/services/scenarios';
+import type { BudgetStatus, ForecastModelId, ForecastResult, Scenario, ScenarioChange } from '@/lib/types';
+import { formatCurrency } from '@/lib/utils/date-utils';
+
+interface FleetSetting {
+  multiplierPercent: number; // 100 = unchanged
+  monthlyCap: string; // Empty = no cap
+}
+
+const DEFAULT_SETTING: FleetSetting = { multiplierPercent: 100, monthlyCap: '' };
+
+const STATUS_LABELS: Record<BudgetStatus, { label: string; className: string }> = {
+  under: { label: 'Under', className: 'text-green-600 dark:text-green-400' },
+  'at-risk': { label: 'At Risk', className: 'text-yellow-600 dark:text-yellow-400' },
+  over: { label: 'Over', className: 'text-red-600 dark:text-red-400' },
+};
+
+/**
+ * Rolled-up forecast and its sub-fleets as one flat list (unallocated lines included)
+ */
+function flattenForecast(forecast: ForecastResult, depth = 0): Array<{ forecast: ForecastResult; depth: number }> {
+  return [
+    { forecast, depth },
+    ...(forecast.subFleets ?? []).flatMap(child => flattenForecast(child, depth + 1)),
+    ...(forecast.unallocated ? [{ forecast: forecast.unallocated, depth: depth + 1 }] : []),
+  ];
+}
+
+async function postScenario(rootFleetId: string, model: ForecastModelId, changes: ScenarioChange[]): Promise<ScenarioResult> {
+  const response = await fetch('/api/scenarios/run', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rootFleetId, model, changes }),
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error([body.error, ...(body.problems ?? [])].join(' - ') || 'Failed to run scenario');
+  }
+  return body;
+}
+
+export default function ScenariosPage() {
+  const rootFleets = FLEET_HIERARCHY.filter(fleet => fleet.type !== 'child');
+  const [rootFleetId, setRootFleetId] = useState(rootFleets[0]?.id ?? '');
+  const [model, setModel] = useState<ForecastModelId>(DEFAULT_FORECAST_MODEL);
+  const [fromMonth, setFromMonth] = useState(format(addMonths(new Date(), 1), 'yyyy-MM'));
+  const [settings, setSettings] = useState<Record<string, FleetSetting>>({});
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scenarioName, setScenarioName] = useState('');
+  const [savedScenarios, setSavedScenarios] = useState<Scenario[]>([]);
+  const [comparison, setComparison] = useState<Array<{ scenario: Scenario; result: ScenarioResult }>>([]);
+
+  const fleets = useMemo(() => getFleetTree(rootFleetId), [rootFleetId]);
+
+  const changes: ScenarioChange[] = fleets.flatMap((fleet) => {
+    const setting = settings[fleet.id] ?? DEFAULT_SETTING;
+    const monthlyCap = setting.monthlyCap.trim() === '' ? undefined : Number(setting.monthlyCap);
+    if (setting.multiplierPercent === 100 && monthlyCap === undefined) return [];
+    return [{
+      fleetId: fleet.id,
+      fromMonth,
+      ...(setting.multiplierPercent !== 100 ? { multiplier: setting.multiplierPercent / 100 } : {}),
+      ...(monthlyCap !== undefined ? { monthlyCap } : {}),
+    }];
+  });
+
+  const loadSavedScenarios = async () => {
+    try {
+      const response = await fetch('/api/scenarios');
+      if (response.ok) setSavedScenarios(await response.json());
+    } catch {
+      // Saved scenarios are optional - the planner works without them
+    }
+  };
+
+  useEffect(() => {
+    loadSavedScenarios();
+  }, []);
+
+  const updateSetting = (fleetId: string, update: Partial<FleetSetting>) => {
+    setSettings(current => ({ ...current, [fleetId]: { ...(current[fleetId] ?? DEFAULT_SETTING), ...update } }));
+  };
+
+  const handleRun = async (runChanges: ScenarioChange[] = changes, runRoot = rootFleetId, runModel = model) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await postScenario(runRoot, runModel, runChanges));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run scenario');
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const response = await fetch('/api/scenarios', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: scenarioName, rootFleetId, model, changes }),
+    });
+    if (!response.ok) {
+      const body = await response.json();
+      setError([body.error, ...(body.problems ?? [])].join(' - '));
+      return;
+    }
+    setScenarioName('');
+    await loadSavedScenarios();
+  };
+
+  const handleLoad = (scenario: Scenario) => {
+    setRootFleetId(scenario.rootFleetId);
+    setModel(scenario.model ?? DEFAULT_FORECAST_MODEL);
+    if (scenario.changes[0]) setFromMonth(scenario.changes[0].fromMonth);
+    setSettings(Object.fromEntries(scenario.changes.map(change => [change.fleetId, {
+      multiplierPercent: Math.round((change.multiplier ?? 1) * 100),
+      monthlyCap: change.monthlyCap === undefined ? '' : String(change.monthlyCap),
+    }])));
+    handleRun(scenario.changes, scenario.rootFleetId, scenario.model ?? DEFAULT_FORECAST_MODEL);
+  };
+
+  const handleDelete = async (id: string) => {
+    await fetch(`/api/scenarios?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    setComparison(current => current.filter(entry => entry.scenario.id !== id));
+    await loadSavedScenarios();
+  };
+
+  const handleCompare = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const candidates = savedScenarios.filter(scenario => scenario.rootFleetId === rootFleetId);
+      const results = await Promise.all(candidates.map(async scenario => ({
+        scenario,
+        result: await postScenario(scenario.rootFleetId, scenario.model ?? DEFAULT_FORECAST_MODEL, scenario.changes),
+      })));
+      setComparison(results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare scenarios');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const baselineById = new Map(result ? flattenForecast(result.baseline).map(row => [row.forecast.fleetId, row.forecast]) : []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              What-if Scenario Planner
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Change burn rates from a given month and see the rolled-up forecast against the baseline
+            </p>
+          </div>
+          <Link href="/" className="text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400">
+            ← Forecast
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Scenario Inputs */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Fleet Tree
+              <select
+                value={rootFleetId}
+                onChange={(e) => { setRootFleetId(e.target.value); setSettings({}); setResult(null); setComparison([]); }}
+                className="mt-1 w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                disabled={loading}
+              >
+                {rootFleets.map(fleet => (
+                  <option key={fleet.id} value={fleet.id}>{fleet.id} - {fleet.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Forecast Model
+              <select
+                value={model}
+                onChange={(e) => setModel(e.target.value as ForecastModelId)}
+                className="mt-1 w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                disabled={loading}
+              >
+                {Object.values(FORECAST_MODELS).map(forecastModel => (
+                  <option key={forecastModel.id} value={forecastModel.id}>{forecastModel.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Changes Start
+              <input
+                type="month"
+                value={fromMonth}
+                onChange={(e) => setFromMonth(e.target.value)}
+                className="mt-1 w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                disabled={loading}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-4">
+            {fleets.map((fleet) => {
+              const setting = settings[fleet.id] ?? DEFAULT_SETTING;
+              return (
+                <div key={fleet.id} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                  <div className={fleet.id === rootFleetId ? '' : 'md:pl-6'}>
+                    <p className="font-medium text-gray-900 dark:text-white">{fleet.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{fleet.id}{fleet.budget ? ` · ${fleet.budget}` : ''}</p>
+                  </div>
+                  <label className="text-sm text-gray-700 dark:text-gray-300">
+                    Burn rate: <strong>{setting.multiplierPercent}%</strong>
+                    <input
+                      type="range"
+                      min={0}
+                      max={200}
+                      step={5}
+                      value={setting.multiplierPercent}
+                      onChange={(e) => updateSetting(fleet.id, { multiplierPercent: Number(e.target.value) })}
+                      className="w-full"
+                      disabled={loading}
+                    />
+                  </label>
+                  <label className="text-sm text-gray-700 dark:text-gray-300">
+                    Monthly cap ($)
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder="No cap"
+                      value={setting.monthlyCap}
+                      onChange={(e) => updateSetting(fleet.id, { monthlyCap: e.target.value })}
+                      className="mt-1 w-full px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                      disabled={loading}
+                    />
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap gap-4 mt-6">
+            <button
+              onClick={() => handleRun()}
+              disabled={loading || !rootFleetId}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Running...' : 'Run Scenario'}
+            </button>
+            <input
+              type="text"
+              placeholder="Scenario name"
+              value={scenarioName}
+              onChange={(e) => setScenarioName(e.target.value)}
+              className="flex-1 min-w-[12rem] px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+            />
+            <button
+              onClick={handleSave}
+              disabled={loading || !scenarioName.trim()}
+              className="px-6 py-2 border border-blue-600 text-blue-600 dark:text-blue-400 rounded-lg font-medium hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save Scenario
+            </button>
+          </div>
+
+          {error && (
+            <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-700 dark:text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Scenario vs Baseline */}
+        {result && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Scenario vs Baseline
+            </h3>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2">Fleet</th>
+                  <th className="py-2 text-right">Budget</th>
+                  <th className="py-2 text-right">Baseline EOY</th>
+                  <th className="py-2 text-right">Scenario EOY</th>
+                  <th className="py-2 text-right">Change</th>
+                  <th className="py-2 text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {flattenForecast(result.scenario).map(({ forecast, depth }) => {
+                  const baseline = baselineById.get(forecast.fleetId);
+                  const change = baseline ? forecast.forecastedEOYSpend - baseline.forecastedEOYSpend : 0;
+                  return (
+                    <tr key={forecast.fleetId}>
+                      <td className="py-2 text-gray-900 dark:text-white" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                        {depth > 0 ? '↳ ' : ''}{forecast.fleetName}
+                      </td>
+                      <td className="py-2 text-right text-gray-900 dark:text-white">{formatCurrency(forecast.budget, forecast.currency)}</td>
+                      <td className="py-2 text-right text-gray-900 dark:text-white">{baseline ? formatCurrency(baseline.forecastedEOYSpend, forecast.currency) : '-'}</td>
+                      <td className="py-2 text-right font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.forecastedEOYSpend, forecast.currency)}</td>
+                      <td className={`py-2 text-right ${change > 0 ? 'text-red-600 dark:text-red-400' : change < 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-500'}`}>
+                        {change >= 0 ? '+' : ''}{formatCurrency(change, forecast.currency)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {forecast.childrenExceedParent ? (
+                          <span className="text-gray-500" title="Sub-fleets add up to more than the parent">-</span>
+                        ) : (
+                          <>
+                            {baseline && baseline.budgetStatus !== forecast.budgetStatus && (
+                              <span className={STATUS_LABELS[baseline.budgetStatus].className}>{STATUS_LABELS[baseline.budgetStatus].label} → </span>
+                            )}
+                            <span className={STATUS_LABELS[forecast.budgetStatus].className}>{STATUS_LABELS[forecast.budgetStatus].label}</span>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {result.missingFleetIds.length > 0 && (
+              <p className="mt-4 text-sm text-yellow-700 dark:text-yellow-400">
+                No report in the {result.reportDate} snapshot for {result.missingFleetIds.join(', ')} - left out of the rollup.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Saved Scenarios */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Saved Scenarios
+            </h3>
+            <button
+              onClick={handleCompare}
+              disabled={loading || !savedScenarios.some(scenario => scenario.rootFleetId === rootFleetId)}
+              className="px-4 py-1 text-sm border border-blue-600 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Compare for {rootFleetId}
+            </button>
+          </div>
+          {savedScenarios.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No saved scenarios yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {savedScenarios.map((scenario) => (
+                <li key={scenario.id} className="py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{scenario.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {scenario.rootFleetId} · {scenario.changes.length} change(s) · {FORECAST_MODELS[scenario.model ?? DEFAULT_FORECAST_MODEL]?.name}
+                    </p>
+                  </div>
+                  <div className="flex gap-3">
+                    <button onClick={() => handleLoad(scenario)} className="text-blue-600 dark:text-blue-400 hover:underline" disabled={loading}>Load</button>
+                    <button onClick={() => handleDelete(scenario.id)} className="text-red-600 dark:text-red-400 hover:underline" disabled={loading}>Delete</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {comparison.length > 0 && (
+            <table className="min-w-full text-sm mt-6">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-2">Scenario</th>
+                  <th className="py-2 text-right">EOY Spend</th>
+                  <th className="py-2 text-right">vs Baseline</th>
+                  <th className="py-2 text-right">Variance</th>
+                  <th className="py-2 text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                <tr>
+                  <td className="py-2 text-gray-600 dark:text-gray-400">Baseline</td>
+                  <td className="py-2 text-right text-gray-900 dark:text-white">{formatCurrency(comparison[0].result.baseline.forecastedEOYSpend, comparison[0].result.baseline.currency)}</td>
+                  <td className="py-2 text-right text-gray-500">-</td>
+                  <td className="py-2 text-right text-gray-900 dark:text-white">{formatCurrency(comparison[0].result.baseline.variance, comparison[0].result.baseline.currency)}</td>
+                  <td className={`py-2 text-right ${STATUS_LABELS[comparison[0].result.baseline.budgetStatus].className}`}>
+                    {STATUS_LABELS[comparison[0].result.baseline.budgetStatus].label}
+                  </td>
+                </tr>
+                {comparison.map(({ scenario, result: compared }) => (
+                  <tr key={scenario.id}>
+                    <td className="py-2 text-gray-900 dark:text-white">{scenario.name}</td>
+                    <td className="py-2 text-right text-gray-900 dark:text-white">{formatCurrency(compared.scenario.forecastedEOYSpend, compared.scenario.currency)}</td>
+                    <td className="py-2 text-right text-gray-900 dark:text-white">
+                      {formatCurrency(compared.scenario.forecastedEOYSpend - compared.baseline.forecastedEOYSpend, compared.scenario.currency)}
+                    </td>
+                    <td className="py-2 text-right text-gray-900 dark:text-white">{formatCurrency(compared.scenario.variance, compared.scenario.currency)}</td>
+                    <td className={`py-2 text-right ${STATUS_LABELS[compared.scenario.budgetStatus].className}`}>
+                      {STATUS_LABELS[compared.scenario.budgetStatus].label}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
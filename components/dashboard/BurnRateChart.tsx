@@ -2,13 +2,14 @@
 
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { MonthlyBurnRate } from '@/lib/types';
-import { formatCurrency } from '@/lib/utils/date-utils';
+import { formatCurrency, formatCurrencyThousands } from '@/lib/utils/date-utils';
 
 interface BurnRateChartProps {
   data: MonthlyBurnRate[];
+  currency?: string; // Defaults to USD
 }
 
-export function BurnRateChart({ data }: BurnRateChartProps) {
+export function BurnRateChart({ data, currency }: BurnRateChartProps) {
   const chartData = data.map((item) => ({
     month: item.monthName.split(' ')[0], // Just the month name
     'Total Spend': item.totalSpend,
@@ -29,10 +30,10 @@ export function BurnRateChart({ data }: BurnRateChartProps) {
           />
           <YAxis
             className="text-gray-600 dark:text-gray-400"
-            tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+            tickFormatter={(value) => formatCurrencyThousands(value, currency)}
           />
           <Tooltip
-            formatter={(value: number | undefined) => value !== undefined ? formatCurrency(value) : ''}
+            formatter={(value: number | undefined) => value !== undefined ? formatCurrency(value, currency) : ''}
             contentStyle={{
               backgroundColor: 'rgba(255, 255, 255, 0.95)',
               border: '1px solid #e5e7eb',
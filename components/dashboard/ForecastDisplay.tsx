@@ -1,16 +1,66 @@
 'use client';
 
-import type { ForecastResult } from '@/lib/types';
+import type { BudgetStatus, ForecastResult } from '@/lib/types';
 import { StatCard } from '@/components/ui/StatCard';
 import { MonthlySpendChart } from './MonthlySpendChart';
 import { MonthlyBurnRateChart } from './MonthlyBurnRateChart';
+import { ProjectionHistoryChart } from './ProjectionHistoryChart';
 import { formatCurrency, formatPercentage, formatDisplayDate } from '@/lib/utils/date-utils';
+import { getFiscalCalendar } from '@/lib/utils/fiscal-calendar';
+import { FORECAST_MODELS } from '@/lib/services/forecast-models';
+import type { FleetHistory } from '@/lib/services/fleet-history';
 
 interface ForecastDisplayProps {
   forecast: ForecastResult;
+  history?: FleetHistory | null; // Report snapshots of the fleet's fiscal year, for the projection history chart
 }
 
-export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
+const BUDGET_STATUS_STYLES: Record<BudgetStatus, {
+  label: string;
+  trend: 'positive' | 'warning' | 'negative';
+  panel: string;
+  text: string;
+  badge: string;
+  icon: string;
+}> = {
+  under: {
+    label: 'Under Budget',
+    trend: 'positive',
+    panel: 'bg-green-50 dark:bg-green-900/20 border-green-500',
+    text: 'text-green-600 dark:text-green-400',
+    badge: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+    icon: '✅',
+  },
+  'at-risk': {
+    label: 'At Risk',
+    trend: 'warning',
+    panel: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-500',
+    text: 'text-yellow-600 dark:text-yellow-400',
+    badge: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+    icon: '⚠️',
+  },
+  over: {
+    label: 'Over Budget',
+    trend: 'negative',
+    panel: 'bg-red-50 dark:bg-red-900/20 border-red-500',
+    text: 'text-red-600 dark:text-red-400',
+    badge: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+    icon: '🚨',
+  },
+};
+
+export function ForecastDisplay({ forecast, history }: ForecastDisplayProps) {
+  const calendar = getFiscalCalendar();
+  const fiscalYearLabel = calendar.getFiscalYearLabel(calendar.getFiscalYear(forecast.fiscalYearStart));
+  const status = BUDGET_STATUS_STYLES[forecast.budgetStatus];
+  const overBudgetChance = formatPercentage(forecast.overBudgetProbability * 100, 0);
+  const { pacing } = forecast;
+  const aheadOfPace = pacing.percentBudgetUsed > pacing.percentYearElapsed;
+  const anomalousMonths = forecast.monthlyBurnRates.filter(month => month.isAnomaly);
+  // Revisions after the goal the fiscal year started with
+  const goalRevisions = forecast.budgetHistory.slice(1);
+  const lastGoalRevision = goalRevisions[goalRevisions.length - 1];
+
   return (
     <div className="space-y-6">
       {/* Fleet Header */}
@@ -18,15 +68,38 @@ export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
         <h1 className="text-3xl font-bold mb-2">{forecast.fleetName}</h1>
         <p className="text-blue-100">Fleet ID: {forecast.fleetId}</p>
         <p className="text-blue-100 mt-1">
-          Fiscal Year {forecast.fiscalYearStart.getFullYear()}: {formatDisplayDate(forecast.fiscalYearStart)} - {formatDisplayDate(forecast.fiscalYearEnd)}
+          Fiscal Year {fiscalYearLabel}: {formatDisplayDate(forecast.fiscalYearStart)} - {formatDisplayDate(forecast.fiscalYearEnd)}
+        </p>
+        <p className="text-blue-100 mt-1">
+          Forecast model: {FORECAST_MODELS[forecast.forecastModel]?.name ?? forecast.forecastModel}
+          {forecast.requestedForecastModel && (
+            <span className="text-blue-200">
+              {' '}(not enough data for {FORECAST_MODELS[forecast.requestedForecastModel]?.name ?? forecast.requestedForecastModel})
+            </span>
+          )}
         </p>
+        {forecast.reportDate && (
+          <p className="text-blue-100 mt-1">
+            Report snapshot: {forecast.reportDate}
+            {forecast.scrapedAt && <span className="text-blue-200"> (scraped {formatDisplayDate(forecast.scrapedAt)})</span>}
+          </p>
+        )}
+        {forecast.convertedFrom && (
+          <p className="text-blue-100 mt-1">
+            Amounts in {forecast.currency}, converted from {forecast.convertedFrom}
+          </p>
+        )}
       </div>
 
       {/* Key Metrics Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <StatCard
           title="Annual Budget"
-          value={formatCurrency(forecast.budget)}
+          value={formatCurrency(forecast.budget, forecast.currency)}
+          subtitle={lastGoalRevision
+            ? `Revised ${formatDisplayDate(lastGoalRevision.effectiveDate)} · originally ${formatCurrency(forecast.originalBudget, forecast.currency)}`
+            : undefined}
+          trend={lastGoalRevision ? 'warning' : undefined}
           icon={
             <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -36,7 +109,7 @@ export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
         
         <StatCard
           title="YTD Spend"
-          value={formatCurrency(forecast.ytdSpend)}
+          value={formatCurrency(forecast.ytdSpend, forecast.currency)}
           subtitle={`${forecast.daysElapsed} days elapsed`}
           icon={
             <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -47,7 +120,7 @@ export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
         
         <StatCard
           title="Daily Burn Rate"
-          value={formatCurrency(forecast.avgDailyBurnRate)}
+          value={formatCurrency(forecast.avgDailyBurnRate, forecast.currency)}
           subtitle={`Avg. across ${forecast.daysElapsed} days`}
           icon={
             <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -58,9 +131,9 @@ export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
         
         <StatCard
           title="Forecasted EOY Spend"
-          value={formatCurrency(forecast.forecastedEOYSpend)}
-          subtitle={forecast.isOverBudget ? 'Over Budget' : 'Under Budget'}
-          trend={forecast.isOverBudget ? 'negative' : 'positive'}
+          value={formatCurrency(forecast.forecastedEOYSpend, forecast.currency)}
+          subtitle={`${status.label} · P10-P90 ${formatCurrency(forecast.forecastBands.p10, forecast.currency)} - ${formatCurrency(forecast.forecastBands.p90, forecast.currency)}`}
+          trend={status.trend}
           icon={
             <svg className="w-6 h-6 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
@@ -70,58 +143,220 @@ export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
       </div>
 
       {/* Budget Variance */}
-      <div className={`rounded-lg shadow-md p-6 border-2 ${
-        forecast.isOverBudget
-          ? 'bg-red-50 dark:bg-red-900/20 border-red-500'
-          : 'bg-green-50 dark:bg-green-900/20 border-green-500'
-      }`}>
+      <div className={`rounded-lg shadow-md p-6 border-2 ${status.panel}`}>
         <div className="flex items-center justify-between">
           <div>
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
               Budget Variance
             </h3>
-            <p className={`text-3xl font-bold ${
-              forecast.isOverBudget
-                ? 'text-red-600 dark:text-red-400'
-                : 'text-green-600 dark:text-green-400'
-            }`}>
-              {forecast.variance >= 0 ? '+' : ''}{formatCurrency(forecast.variance)}
+            <p className={`text-3xl font-bold ${status.text}`}>
+              {forecast.variance >= 0 ? '+' : ''}{formatCurrency(forecast.variance, forecast.currency)}
             </p>
-            <p className={`text-lg mt-1 ${
-              forecast.isOverBudget
-                ? 'text-red-600 dark:text-red-400'
-                : 'text-green-600 dark:text-green-400'
-            }`}>
+            <p className={`text-lg mt-1 ${status.text}`}>
               {forecast.variancePercentage >= 0 ? '+' : ''}{formatPercentage(forecast.variancePercentage)}
             </p>
           </div>
-          <div className={`text-5xl ${
-            forecast.isOverBudget
-              ? 'text-red-500'
-              : 'text-green-500'
-          }`}>
-            {forecast.isOverBudget ? '⚠️' : '✅'}
+          <div className="text-right">
+            <div className="text-5xl">{status.icon}</div>
+            <span className={`inline-block mt-2 px-3 py-1 rounded-full text-sm font-medium ${status.badge}`}>
+              {status.label}
+            </span>
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-gray-600 dark:text-gray-400">P10 (low)</p>
+            <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.forecastBands.p10, forecast.currency)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600 dark:text-gray-400">P50 (expected)</p>
+            <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.forecastBands.p50, forecast.currency)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600 dark:text-gray-400">P90 (high)</p>
+            <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.forecastBands.p90, forecast.currency)}</p>
           </div>
         </div>
         <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
-          {forecast.isOverBudget
-            ? `At the current burn rate, the fleet is projected to exceed its budget by ${formatCurrency(Math.abs(forecast.variance))}.`
-            : `At the current burn rate, the fleet is projected to be under budget by ${formatCurrency(Math.abs(forecast.variance))}.`
-          }
+          {forecast.budgetStatus === 'over' &&
+            `The fleet is projected to exceed its budget by ${formatCurrency(Math.abs(forecast.variance), forecast.currency)} (${overBudgetChance} chance of going over).`}
+          {forecast.budgetStatus === 'at-risk' &&
+            `The fleet is projected to be under budget by ${formatCurrency(Math.abs(forecast.variance), forecast.currency)}, but the budget falls inside the likely range: ${overBudgetChance} chance of exceeding it.`}
+          {forecast.budgetStatus === 'under' &&
+            `The fleet is projected to be under budget by ${formatCurrency(Math.abs(forecast.variance), forecast.currency)} (${overBudgetChance} chance of going over).`}
         </p>
+        {forecast.originalBudget !== forecast.budget && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            Against the original goal of {formatCurrency(forecast.originalBudget, forecast.currency)}:{' '}
+            <span className="font-semibold text-gray-900 dark:text-white">
+              {forecast.originalVariance >= 0 ? '+' : ''}{formatCurrency(forecast.originalVariance, forecast.currency)}
+              {' '}({forecast.originalVariancePercentage >= 0 ? '+' : ''}{formatPercentage(forecast.originalVariancePercentage)})
+            </span>
+          </p>
+        )}
+      </div>
+
+      {/* Budget History */}
+      {goalRevisions.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Budget History
+          </h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="py-2">Effective</th>
+                <th className="py-2 text-right">Goal</th>
+                <th className="py-2 text-right">Change</th>
+                <th className="py-2 pl-4">Source</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {forecast.budgetHistory.map((revision, i) => {
+                const change = i > 0 ? revision.amount - forecast.budgetHistory[i - 1].amount : null;
+                return (
+                  <tr key={`${revision.effectiveDate}-${revision.source}-${i}`}>
+                    <td className="py-2 text-gray-900 dark:text-white">{formatDisplayDate(revision.effectiveDate)}</td>
+                    <td className="py-2 text-right font-semibold text-gray-900 dark:text-white">{formatCurrency(revision.amount, forecast.currency)}</td>
+                    <td className="py-2 text-right text-gray-600 dark:text-gray-400">
+                      {change === null ? 'Original' : `${change >= 0 ? '+' : ''}${formatCurrency(change, forecast.currency)}`}
+                    </td>
+                    <td className="py-2 pl-4 text-gray-600 dark:text-gray-400">
+                      {revision.source === 'scraped' ? 'Detected between scrapes' : 'Manual'}
+                      {revision.note && ` - ${revision.note}`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Forecast Adjustments */}
+      {forecast.adjustments.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Forecast Adjustments
+          </h3>
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              <tr>
+                <td className="py-2 text-gray-600 dark:text-gray-400" colSpan={3}>Baseline EOY ({FORECAST_MODELS[forecast.forecastModel]?.name ?? forecast.forecastModel})</td>
+                <td className="py-2 text-right font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.baselineEOYSpend, forecast.currency)}</td>
+              </tr>
+              {forecast.adjustments.map((adjustment) => (
+                <tr key={adjustment.id} className={adjustment.impact === 0 ? 'opacity-50' : ''}>
+                  <td className="py-2 text-gray-600 dark:text-gray-400">{formatDisplayDate(adjustment.date)}</td>
+                  <td className="py-2 text-gray-900 dark:text-white">
+                    {adjustment.description}
+                    {adjustment.impact === 0 && <span className="text-gray-500"> (outside the forecast period)</span>}
+                  </td>
+                  <td className="py-2 text-gray-600 dark:text-gray-400">
+                    {adjustment.type === 'run-rate' ? `${formatCurrency(adjustment.amount, forecast.currency)} / month from date` : 'One-time'}
+                  </td>
+                  <td className="py-2 text-right text-gray-900 dark:text-white">
+                    {adjustment.impact >= 0 ? '+' : ''}{formatCurrency(adjustment.impact, forecast.currency)}
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td className="py-2 font-semibold text-gray-900 dark:text-white" colSpan={3}>Adjusted EOY</td>
+                <td className="py-2 text-right font-bold text-gray-900 dark:text-white">{formatCurrency(forecast.forecastedEOYSpend, forecast.currency)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Budget Pacing */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          Budget Pacing
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Remaining Budget</p>
+            <p className={`text-2xl font-bold ${pacing.remainingBudget < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+              {formatCurrency(pacing.remainingBudget, forecast.currency)}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{pacing.daysRemainingInYear} days left in the fiscal year</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Runway at Current Burn</p>
+            <p className={`text-2xl font-bold ${pacing.exhaustsBeforeYearEnd ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+              {pacing.daysUntilExhausted === null ? 'No spend' : `${Math.floor(pacing.daysUntilExhausted)} days`}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {pacing.exhaustionDate
+                ? `${pacing.exhaustsBeforeYearEnd ? 'Runs out' : 'Would run out'} ${formatDisplayDate(pacing.exhaustionDate)}`
+                : 'Budget is not being spent down'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Required Burn to Land on Budget</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">
+              {formatCurrency(pacing.requiredDailyBurnRate, forecast.currency)}<span className="text-sm font-normal text-gray-600 dark:text-gray-400"> / day</span>
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {formatCurrency(pacing.requiredMonthlyBurnRate, forecast.currency)} / month (current {formatCurrency(forecast.avgDailyBurnRate, forecast.currency)} / day)
+            </p>
+          </div>
+        </div>
+        <div className="mt-6 space-y-3">
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+              <span>Budget used</span>
+              <span>{formatPercentage(pacing.percentBudgetUsed, 1)}</span>
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${aheadOfPace ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${Math.min(100, pacing.percentBudgetUsed)}%` }}
+              />
+            </div>
+          </div>
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+              <span>Year elapsed</span>
+              <span>{formatPercentage(pacing.percentYearElapsed, 1)}</span>
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, pacing.percentYearElapsed)}%` }} />
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {aheadOfPace
+              ? 'Spending is ahead of the calendar - more budget used than year elapsed.'
+              : 'Spending is on or behind pace with the calendar.'}
+          </p>
+        </div>
       </div>
 
       {/* Monthly Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <MonthlySpendChart data={forecast.monthlyBurnRates} />
-        <MonthlyBurnRateChart data={forecast.monthlyBurnRates} />
+        <MonthlySpendChart data={forecast.monthlyBurnRates} currency={forecast.currency} />
+        <MonthlyBurnRateChart data={forecast.monthlyBurnRates} currency={forecast.currency} />
       </div>
 
+      {/* Projection History */}
+      {history && history.points.length > 0 && <ProjectionHistoryChart history={history} />}
+
       {/* Monthly Breakdown Table */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
           Monthly Breakdown
         </h3>
+        {anomalousMonths.length > 0 && (
+          <p className="mb-4 text-sm text-red-700 dark:text-red-400">
+            {anomalousMonths.length} anomalous month(s): {anomalousMonths.map(month => month.monthName).join(', ')}
+          </p>
+        )}
+        {forecast.monthlyBurnRates.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No monthly spend rows in this report. Re-run <code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">npm run scrape-monthly-report</code> to capture the usage table.
+          </p>
+        )}
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead>
@@ -134,11 +369,26 @@ export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
             </thead>
             <tbody>
               {forecast.monthlyBurnRates.map((month) => (
-                <tr key={month.month} className="border-b border-gray-100 dark:border-gray-700/50 hover:bg-gray-50 dark:hover:bg-gray-700/50">
-                  <td className="py-3 px-4 text-gray-900 dark:text-white">{month.monthName}</td>
-                  <td className="py-3 px-4 text-right text-gray-900 dark:text-white">{formatCurrency(month.totalSpend)}</td>
+                <tr
+                  key={month.month}
+                  className={`border-b border-gray-100 dark:border-gray-700/50 ${month.isAnomaly
+                    ? 'bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                >
+                  <td className="py-3 px-4 text-gray-900 dark:text-white">
+                    {month.monthName}
+                    {month.isAnomaly && (
+                      <span
+                        className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
+                        title="Robust z-score of the daily burn against the year's median month"
+                      >
+                        {month.anomalyScore > 0 ? 'Spike' : 'Drop'} · score {month.anomalyScore.toFixed(1)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-right text-gray-900 dark:text-white">{formatCurrency(month.totalSpend, forecast.currency)}</td>
                   <td className="py-3 px-4 text-right text-gray-600 dark:text-gray-400">{month.daysInMonth}</td>
-                  <td className="py-3 px-4 text-right text-gray-900 dark:text-white font-medium">{formatCurrency(month.dailyBurnRate)}</td>
+                  <td className="py-3 px-4 text-right text-gray-900 dark:text-white font-medium">{formatCurrency(month.dailyBurnRate, forecast.currency)}</td>
                 </tr>
               ))}
             </tbody>
@@ -147,54 +397,126 @@ export function ForecastDisplay({ forecast }: ForecastDisplayProps) {
       </div>
 
       {/* Sub-Fleets */}
-      {forecast.subFleets && forecast.subFleets.length > 0 && (
+      {((forecast.subFleets && forecast.subFleets.length > 0) || forecast.missingSubFleetIds) && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
             Sub-Fleets Summary
           </h3>
           <div className="space-y-4">
-            {forecast.subFleets.map((subFleet) => (
+            {forecast.subFleets?.map((subFleet) => (
               <div key={subFleet.fleetId} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
                 <div className="flex justify-between items-start mb-2">
                   <div>
                     <h4 className="font-semibold text-gray-900 dark:text-white">{subFleet.fleetName}</h4>
                     <p className="text-sm text-gray-600 dark:text-gray-400">{subFleet.fleetId}</p>
                   </div>
-                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                    subFleet.isOverBudget
-                      ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
-                      : 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400'
-                  }`}>
-                    {subFleet.isOverBudget ? 'Over Budget' : 'Under Budget'}
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${BUDGET_STATUS_STYLES[subFleet.budgetStatus].badge}`}>
+                    {BUDGET_STATUS_STYLES[subFleet.budgetStatus].label}
                   </span>
                 </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-3">
                   <div>
                     <p className="text-xs text-gray-600 dark:text-gray-400">Budget</p>
-                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(subFleet.budget)}</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(subFleet.budget, subFleet.currency)}</p>
                   </div>
                   <div>
                     <p className="text-xs text-gray-600 dark:text-gray-400">YTD Spend</p>
-                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(subFleet.ytdSpend)}</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(subFleet.ytdSpend, subFleet.currency)}</p>
                   </div>
                   <div>
                     <p className="text-xs text-gray-600 dark:text-gray-400">Forecasted EOY</p>
-                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(subFleet.forecastedEOYSpend)}</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(subFleet.forecastedEOYSpend, subFleet.currency)}</p>
                   </div>
                   <div>
                     <p className="text-xs text-gray-600 dark:text-gray-400">Variance</p>
-                    <p className={`font-semibold ${
-                      subFleet.isOverBudget
-                        ? 'text-red-600 dark:text-red-400'
-                        : 'text-green-600 dark:text-green-400'
-                    }`}>
-                      {subFleet.variance >= 0 ? '+' : ''}{formatCurrency(subFleet.variance)}
+                    <p className={`font-semibold ${BUDGET_STATUS_STYLES[subFleet.budgetStatus].text}`}>
+                      {subFleet.variance >= 0 ? '+' : ''}{formatCurrency(subFleet.variance, subFleet.currency)}
                     </p>
                   </div>
                 </div>
               </div>
             ))}
+            {forecast.unallocated && (
+              <div className="border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h4 className="font-semibold text-gray-900 dark:text-white">Unallocated</h4>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {forecast.unallocated.childrenExceedParent
+                        ? 'Sub-fleets add up to more than the parent - no budget left to attribute'
+                        : forecast.rollupMode === 'additive'
+                          ? 'Spend and budget booked directly on the parent fleet'
+                          : 'Parent totals not attributed to any sub-fleet'}
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-3">
+                  <div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">Budget</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.unallocated.budget, forecast.unallocated.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">YTD Spend</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.unallocated.ytdSpend, forecast.unallocated.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">Forecasted EOY</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">{formatCurrency(forecast.unallocated.forecastedEOYSpend, forecast.unallocated.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">Variance</p>
+                    <p className="font-semibold text-gray-900 dark:text-white">
+                      {forecast.unallocated.childrenExceedParent
+                        ? '-'
+                        : `${forecast.unallocated.variance >= 0 ? '+' : ''}${formatCurrency(forecast.unallocated.variance, forecast.unallocated.currency)}`}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+            {forecast.missingSubFleetIds && (
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                No report in this snapshot for sub-fleet(s) {forecast.missingSubFleetIds.join(', ')} - their spend is counted as unallocated
+              </p>
+            )}
           </div>
+
+          {forecast.rollupCheck && (
+            <div className="mt-6">
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-2">Rollup Check</h4>
+              {forecast.rollupCheck.childrenExceedParent && (
+                <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-800 dark:text-red-200">
+                    The sub-fleets add up to more than the parent - check the hierarchy config and rollup mode against Cerberus
+                  </p>
+                </div>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left py-2 text-gray-700 dark:text-gray-300"></th>
+                    <th className="text-right py-2 text-gray-700 dark:text-gray-300">Budget</th>
+                    <th className="text-right py-2 text-gray-700 dark:text-gray-300">YTD Spend</th>
+                    <th className="text-right py-2 text-gray-700 dark:text-gray-300">Forecasted EOY</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([
+                    ['Parent', forecast.rollupCheck.parent],
+                    ['Sum of sub-fleets', forecast.rollupCheck.children],
+                    ['Difference', forecast.rollupCheck.difference],
+                  ] as const).map(([label, totals]) => (
+                    <tr key={label} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="py-2 text-gray-900 dark:text-white">{label}</td>
+                      <td className="text-right py-2 text-gray-900 dark:text-white">{formatCurrency(totals.budget, forecast.currency)}</td>
+                      <td className="text-right py-2 text-gray-900 dark:text-white">{formatCurrency(totals.ytdSpend, forecast.currency)}</td>
+                      <td className="text-right py-2 text-gray-900 dark:text-white">{formatCurrency(totals.forecastedEOYSpend, forecast.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -2,18 +2,17 @@
 
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { MonthlyBurnRate } from '@/lib/types';
-import { formatCurrency } from '@/lib/utils/date-utils';
+import { formatCurrency, formatCurrencyThousands } from '@/lib/utils/date-utils';
+import { getFiscalCalendar } from '@/lib/utils/fiscal-calendar';
 
 interface MonthlyBurnRateChartProps {
   data: MonthlyBurnRate[];
+  currency?: string; // Defaults to USD
 }
 
-export function MonthlyBurnRateChart({ data }: MonthlyBurnRateChartProps) {
-  // Fiscal year months: Jan, Feb, Mar, Apr, May, Jun, Jul, Aug, Sep, Oct, Nov, Dec
-  const fiscalMonths = [
-    'January', 'February', 'March', 'April', 'May', 'June', 
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
+export function MonthlyBurnRateChart({ data, currency }: MonthlyBurnRateChartProps) {
+  // Fiscal year months in fiscal order (e.g., Jan - Dec, or Feb - Jan)
+  const fiscalMonths = getFiscalCalendar().getFiscalMonthNames();
 
   // Create a map of existing data
   const dataMap = new Map(
@@ -41,10 +40,10 @@ export function MonthlyBurnRateChart({ data }: MonthlyBurnRateChartProps) {
           />
           <YAxis
             className="text-gray-600 dark:text-gray-400"
-            tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+            tickFormatter={(value) => formatCurrencyThousands(value, currency)}
           />
           <Tooltip
-            formatter={(value: number | undefined) => value !== undefined ? formatCurrency(value) : '$0.00'}
+            formatter={(value: number | undefined) => value !== undefined ? formatCurrency(value, currency) : formatCurrency(0, currency)}
             contentStyle={{
               backgroundColor: 'rgba(255, 255, 255, 0.95)',
               border: '1px solid #e5e7eb',
@@ -56,7 +55,7 @@ export function MonthlyBurnRateChart({ data }: MonthlyBurnRateChartProps) {
         </BarChart>
       </ResponsiveContainer>
       <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
-        Average daily spend per month (Fiscal Year: January - December)
+        Average daily spend per month (Fiscal Year: {fiscalMonths[0]} - {fiscalMonths[fiscalMonths.length - 1]})
       </p>
     </div>
   );
@@ -1,30 +1,31 @@
 'use client';
 
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { MonthlyBurnRate } from '@/lib/types';
-import { formatCurrency } from '@/lib/utils/date-utils';
+import { formatCurrency, formatCurrencyThousands } from '@/lib/utils/date-utils';
+import { getFiscalCalendar } from '@/lib/utils/fiscal-calendar';
 
 interface MonthlySpendChartProps {
   data: MonthlyBurnRate[];
+  currency?: string; // Defaults to USD
 }
 
-export function MonthlySpendChart({ data }: MonthlySpendChartProps) {
-  // Fiscal year months: Jan, Feb, Mar, Apr, May, Jun, Jul, Aug, Sep, Oct, Nov, Dec
-  const fiscalMonths = [
-    'January', 'February', 'March', 'April', 'May', 'June', 
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
+export function MonthlySpendChart({ data, currency }: MonthlySpendChartProps) {
+  // Fiscal year months in fiscal order (e.g., Jan - Dec, or Feb - Jan)
+  const fiscalMonths = getFiscalCalendar().getFiscalMonthNames();
 
   // Create a map of existing data
   const dataMap = new Map(
-    data.map(item => [item.monthName.split(' ')[0], item.totalSpend])
+    data.map(item => [item.monthName.split(' ')[0], item])
   );
 
   // Build chart data with all 12 months, filling in zeros for months without data
   const chartData = fiscalMonths.map((month) => ({
     month: month.substring(0, 3), // Abbreviated month names (Feb, Mar, etc.)
-    'Monthly Spend': dataMap.get(month) || 0,
+    'Monthly Spend': dataMap.get(month)?.totalSpend || 0,
+    isAnomaly: dataMap.get(month)?.isAnomaly ?? false,
   }));
+  const hasAnomalies = chartData.some(item => item.isAnomaly);
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
@@ -41,10 +42,10 @@ export function MonthlySpendChart({ data }: MonthlySpendChartProps) {
           />
           <YAxis
             className="text-gray-600 dark:text-gray-400"
-            tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+            tickFormatter={(value) => formatCurrencyThousands(value, currency)}
           />
           <Tooltip
-            formatter={(value: number | undefined) => value !== undefined ? formatCurrency(value) : '$0.00'}
+            formatter={(value: number | undefined) => value !== undefined ? formatCurrency(value, currency) : formatCurrency(0, currency)}
             contentStyle={{
               backgroundColor: 'rgba(255, 255, 255, 0.95)',
               border: '1px solid #e5e7eb',
@@ -52,12 +53,21 @@ export function MonthlySpendChart({ data }: MonthlySpendChartProps) {
             }}
           />
           <Legend />
-          <Bar dataKey="Monthly Spend" fill="#3b82f6" />
+          <Bar dataKey="Monthly Spend" fill="#3b82f6">
+            {chartData.map(item => (
+              <Cell key={item.month} fill={item.isAnomaly ? '#ef4444' : '#3b82f6'} />
+            ))}
+          </Bar>
         </BarChart>
       </ResponsiveContainer>
       <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
-        Fiscal Year: January - December
+        Fiscal Year: {fiscalMonths[0]} - {fiscalMonths[fiscalMonths.length - 1]}
       </p>
+      {hasAnomalies && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400 text-center">
+          Red bars: anomalous months (daily burn far from the year&apos;s median month)
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,70 @@
+'use client';
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import type { FleetHistory } from '@/lib/services/fleet-history';
+import { formatCurrency, formatCurrencyThousands } from '@/lib/utils/date-utils';
+
+interface ProjectionHistoryChartProps {
+  history: FleetHistory;
+}
+
+export function ProjectionHistoryChart({ history }: ProjectionHistoryChartProps) {
+  const { currency } = history;
+
+  // One point per report run; failed runs leave a gap in the lines
+  const chartData = history.points.map(point => ({
+    run: format(parseISO(point.reportDate), 'MMM d'),
+    'Projected EOY': point.success ? point.projectedEOY : null,
+    'IMR Goal': point.success ? point.imrGoal : null,
+    'YTD Spend': point.success ? point.ytdSpend : null,
+  }));
+  const failedRuns = history.points.filter(point => !point.success);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        Projection History (FY{history.fiscalYear})
+      </h3>
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-300 dark:stroke-gray-600" />
+          <XAxis
+            dataKey="run"
+            className="text-gray-600 dark:text-gray-400"
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis
+            className="text-gray-600 dark:text-gray-400"
+            tickFormatter={(value) => formatCurrencyThousands(value, currency)}
+          />
+          <Tooltip
+            formatter={(value) => typeof value === 'number' ? formatCurrency(value, currency) : 'Run failed'}
+            contentStyle={{
+              backgroundColor: 'rgba(255, 255, 255, 0.95)',
+              border: '1px solid #e5e7eb',
+              borderRadius: '0.5rem',
+            }}
+          />
+          <Legend />
+          {failedRuns.map(point => (
+            <ReferenceLine
+              key={point.reportDate}
+              x={format(parseISO(point.reportDate), 'MMM d')}
+              stroke="#ef4444"
+              strokeDasharray="4 4"
+              label={{ value: 'Failed', position: 'top', fill: '#ef4444', fontSize: 11 }}
+            />
+          ))}
+          <Line type="monotone" dataKey="Projected EOY" stroke="#3b82f6" strokeWidth={2} dot />
+          <Line type="stepAfter" dataKey="IMR Goal" stroke="#6b7280" strokeDasharray="6 3" dot={false} />
+          <Line type="monotone" dataKey="YTD Spend" stroke="#10b981" dot />
+        </LineChart>
+      </ResponsiveContainer>
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
+        Run-rate projection recorded by each monthly report
+        {failedRuns.length > 0 && ` · failed runs: ${failedRuns.map(point => `${point.reportDate} (${point.errorCode ?? 'error'})`).join(', ')}`}
+      </p>
+    </div>
+  );
+}
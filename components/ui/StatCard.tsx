@@ -2,7 +2,7 @@ interface StatCardProps {
   title: string;
   value: string;
   subtitle?: string;
-  trend?: 'positive' | 'negative' | 'neutral';
+  trend?: 'positive' | 'negative' | 'warning' | 'neutral';
   icon?: React.ReactNode;
 }
 
@@ -10,6 +10,7 @@ export function StatCard({ title, value, subtitle, trend = 'neutral', icon }: St
   const trendColors = {
     positive: 'text-green-600 dark:text-green-400',
     negative: 'text-red-600 dark:text-red-400',
+    warning: 'text-yellow-600 dark:text-yellow-400',
     neutral: 'text-gray-600 dark:text-gray-400',
   };
 
@@ -0,0 +1,101 @@
+/**
+ * Cerberus selector registry
+ * Single list of every selector the scraper relies on. The scraper reads from it and
+ * `npm run selectors:check` verifies each entry against a live fleet page.
+ */
+
+export type CerberusView = 'Full Year' | 'Year to Date';
+
+export interface SelectorDefinition {
+  selector: string; // CSS selector (comma-separated alternatives allowed)
+  description: string;
+  index?: number; // Positional selectors: which match holds the value
+  view?: CerberusView; // Period the selector must be checked in (omit = any view)
+  required: boolean; // Scraping breaks when a required selector stops matching
+}
+
+export const PERIOD_BUTTON_TEXT: Record<'fullYear' | 'yearToDate', CerberusView> = {
+  fullYear: 'Full Year',
+  yearToDate: 'Year to Date',
+};
+
+export const CERBERUS_SELECTORS = {
+  // Fleet information
+  fleetName: {
+    selector: 'strong',
+    description: 'Fleet name, e.g. "(F6) Planning Automation And Optimization"',
+    index: 0,
+    required: true,
+  },
+  fleetId: {
+    selector: '[data-testid="mus-overview-fleetid"]',
+    description: 'Fleet id label, e.g. "Fleet id: 8304669"',
+    required: false,
+  },
+
+  // Period selection (dual-period strategy)
+  periodSelectorButton: {
+    selector: 'button[data-class-name="mus-period-selector_button"]',
+    description: 'Period buttons ("Full Year", "Year to Date")',
+    required: true,
+  },
+
+  // Budget data (IMR Goal) - FROM FULL YEAR VIEW
+  imrGoal: {
+    selector: '.awsui-key-children',
+    description: 'IMR Goal (index 1; index 0 = Estimated Year End)',
+    index: 1,
+    view: 'Full Year',
+    required: true,
+  },
+
+  // Spend data (YTD Actual) - FROM YEAR TO DATE VIEW
+  ytdSpend: {
+    selector: '.mus-cell-right-aligned',
+    description: 'Total YTD Spend (index 1)',
+    index: 1,
+    view: 'Year to Date',
+    required: true,
+  },
+  spendTable: {
+    selector: 'table.spend-table, table',
+    description: 'Usage table with per-day / per-month spend rows',
+    view: 'Year to Date',
+    required: false,
+  },
+  spendTableRows: {
+    selector: 'tbody tr',
+    description: 'Rows of the usage table',
+    view: 'Year to Date',
+    required: false,
+  },
+
+  // Legacy / hierarchy selectors (not yet confirmed against the live page)
+  fiscalYear: {
+    selector: '.fiscal-year, [data-label="Fiscal Year"]',
+    description: 'Fiscal year label',
+    required: false,
+  },
+  currency: {
+    selector: '.currency',
+    description: 'Currency label',
+    required: false,
+  },
+  parentFleet: {
+    selector: '.parent-fleet, [data-role="parent-fleet"]',
+    description: 'Link to the parent fleet',
+    required: false,
+  },
+  subFleetsList: {
+    selector: '.sub-fleets-list, [data-role="sub-fleets"]',
+    description: 'Sub-fleet list container',
+    required: false,
+  },
+  subFleetItem: {
+    selector: '.sub-fleet-item, [data-role="sub-fleet"]',
+    description: 'Sub-fleet entry',
+    required: false,
+  },
+} satisfies Record<string, SelectorDefinition>;
+
+export type CerberusSelectorName = keyof typeof CERBERUS_SELECTORS;
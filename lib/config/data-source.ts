@@ -0,0 +1,45 @@
+export type FleetDataSourceKind = 'scraper' | 'http' | 'mock';
+
+export interface DataSourceConfig {
+  kind: FleetDataSourceKind; // Where fleet budget and spend come from
+  fallbackToMock: boolean; // Serve mock data when the configured source fails
+  http: {
+    baseUrl: string; // Cerebus JSON API (or the local mock server)
+    apiKey: string; // Sent as a Bearer token when set
+    timeoutMs: number;
+  };
+  scraper: {
+    cerberusUrl: string; // Cerberus web UI scraped with Puppeteer
+  };
+}
+
+const DATA_SOURCE_KINDS: FleetDataSourceKind[] = ['scraper', 'http', 'mock'];
+
+/**
+ * Resolve the data source configuration
+ * Read lazily so scripts that load .env.local after their imports still pick up overrides
+ *
+ * FLEET_DATA_SOURCE          - "scraper", "http" or "mock" (default)
+ * FLEET_DATA_SOURCE_FALLBACK - "mock" (default) or "none"
+ * CEREBUS_API_URL / CEREBUS_API_KEY / CEREBUS_TIMEOUT - HTTP client
+ * CERBERUS_URL               - scraper
+ */
+export function getDataSourceConfig(): DataSourceConfig {
+  const kind = process.env.FLEET_DATA_SOURCE as FleetDataSourceKind | undefined;
+  if (kind && !DATA_SOURCE_KINDS.includes(kind)) {
+    console.warn(`⚠️  Ignoring FLEET_DATA_SOURCE="${kind}" - expected one of ${DATA_SOURCE_KINDS.join(', ')}`);
+  }
+
+  return {
+    kind: kind && DATA_SOURCE_KINDS.includes(kind) ? kind : 'mock',
+    fallbackToMock: process.env.FLEET_DATA_SOURCE_FALLBACK !== 'none',
+    http: {
+      baseUrl: process.env.CEREBUS_API_URL || 'http://localhost:4010',
+      apiKey: process.env.CEREBUS_API_KEY || '',
+      timeoutMs: parseInt(process.env.CEREBUS_TIMEOUT || '', 10) || 30000,
+    },
+    scraper: {
+      cerberusUrl: process.env.CERBERUS_URL || 'https://cerberus.cloudtune.amazon.dev',
+    },
+  };
+}
@@ -0,0 +1,61 @@
+export interface FiscalPeriodDefinition {
+  name: string;
+  months: number; // Length of the period in fiscal months
+}
+
+export interface FiscalCalendarConfig {
+  startMonth: number; // 1-12, calendar month the fiscal year starts in (1 = January)
+  yearLabel: 'start' | 'end'; // Label the fiscal year by the calendar year it starts or ends in
+  labelPrefix: string; // e.g., "FY" -> "FY2026"
+  periods: FiscalPeriodDefinition[]; // Must add up to 12 months
+}
+
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendarConfig = {
+  startMonth: 1,
+  yearLabel: 'start',
+  labelPrefix: 'FY',
+  periods: [
+    { name: 'Q1', months: 3 },
+    { name: 'Q2', months: 3 },
+    { name: 'Q3', months: 3 },
+    { name: 'Q4', months: 3 },
+  ],
+};
+
+/**
+ * Resolve the fiscal calendar configuration
+ * Read lazily so scripts that load .env.local after their imports still pick up overrides
+ *
+ * NEXT_PUBLIC_FISCAL_YEAR_START_MONTH - 1-12 (e.g., 2 for a Feb 1 - Jan 31 fiscal year)
+ * NEXT_PUBLIC_FISCAL_YEAR_LABEL       - "start" or "end" (FY2026 = Feb 2025 - Jan 2026 uses "end")
+ * NEXT_PUBLIC_FISCAL_PERIODS          - comma-separated name:months pairs (e.g., "H1:6,H2:6")
+ */
+export function getFiscalCalendarConfig(): FiscalCalendarConfig {
+  const startMonth = parseInt(process.env.NEXT_PUBLIC_FISCAL_YEAR_START_MONTH || '', 10);
+  const yearLabel = process.env.NEXT_PUBLIC_FISCAL_YEAR_LABEL;
+  const periods = parsePeriods(process.env.NEXT_PUBLIC_FISCAL_PERIODS);
+
+  return {
+    ...DEFAULT_FISCAL_CALENDAR,
+    startMonth: startMonth >= 1 && startMonth <= 12 ? startMonth : DEFAULT_FISCAL_CALENDAR.startMonth,
+    yearLabel: yearLabel === 'start' || yearLabel === 'end' ? yearLabel : DEFAULT_FISCAL_CALENDAR.yearLabel,
+    periods: periods || DEFAULT_FISCAL_CALENDAR.periods,
+  };
+}
+
+function parsePeriods(value?: string): FiscalPeriodDefinition[] | null {
+  if (!value) return null;
+
+  const periods = value.split(',').map(entry => {
+    const [name, months] = entry.split(':').map(s => s.trim());
+    return { name, months: parseInt(months, 10) };
+  });
+
+  const totalMonths = periods.reduce((sum, p) => sum + (p.months || 0), 0);
+  if (periods.some(p => !p.name || !(p.months > 0)) || totalMonths !== 12) {
+    console.warn(`⚠️  Ignoring NEXT_PUBLIC_FISCAL_PERIODS="${value}" - periods must be name:months pairs adding up to 12`);
+    return null;
+  }
+
+  return periods;
+}
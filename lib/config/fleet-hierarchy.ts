@@ -1,17 +1,24 @@
+import type { RollupMode } from '../types';
+
 export interface FleetConfig {
   id: string;
   name: string;
   type: 'parent' | 'child' | 'independent';
   parentId?: string;
   budget?: string;
+  rollupMode?: RollupMode; // Parents only, defaults to DEFAULT_ROLLUP_MODE
 }
 
+// Cerberus parent fleet totals include their children's budget and spend
+export const DEFAULT_ROLLUP_MODE: RollupMode = 'includes-children';
+
 export const FLEET_HIERARCHY: FleetConfig[] = [
   {
     id: '8304669',
     name: '(F6) Planning Automation And Optimization',
     type: 'parent',
-    budget: '$2.36M'
+    budget: '$2.36M',
+    rollupMode: 'includes-children'
   },
   {
     id: '8305082',
@@ -40,6 +47,12 @@ export const FLEET_HIERARCHY: FleetConfig[] = [
     type: 'child',
     parentId: '8304669',
     budget: '$32.9K'
+  },
+  {
+    id: '3046715',
+    name: '(F6) IPC - Capacity',
+    type: 'independent',
+    budget: '$25.06M'
   }
 ];
 
@@ -51,6 +64,21 @@ export function getChildFleets(parentId: string): FleetConfig[] {
   return FLEET_HIERARCHY.filter(fleet => fleet.parentId === parentId);
 }
 
+/**
+ * A fleet and everything below it in the configured hierarchy, depth first
+ */
+export function getFleetTree(rootId: string): FleetConfig[] {
+  const root = getFleetById(rootId);
+  return [
+    ...(root ? [root] : []),
+    ...getChildFleets(rootId).flatMap(child => getFleetTree(child.id)),
+  ];
+}
+
+export function getRollupMode(fleetId: string): RollupMode {
+  return getFleetById(fleetId)?.rollupMode ?? DEFAULT_ROLLUP_MODE;
+}
+
 export function getParentFleets(): FleetConfig[] {
   return FLEET_HIERARCHY.filter(fleet => fleet.type === 'parent' || fleet.type === 'independent');
 }
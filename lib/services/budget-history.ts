@@ -0,0 +1,144 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { isValid, parseISO } from 'date-fns';
+import { z } from 'zod';
+import type { BudgetRevision } from '../types';
+import { listReportDates, loadFleetReportHistory, type ScrapedFleetReport } from './report-forecast';
+import { readDataFile } from './data-file';
+
+/**
+ * Budget (IMR goal) History
+ * The scraper overwrites imrGoal every month, so revisions are recovered by comparing the archived
+ * reports in reports/YYYY-MM-DD/, and manual entries (kept in a local JSON file) fill in what the
+ * archive cannot show - e.g. the original goal from before the first report, or the exact effective date.
+ */
+
+export const BUDGET_HISTORY_FILE = path.join(process.cwd(), 'data', 'budget-history.json');
+
+// Scraped goals within a cent are the same goal
+const GOAL_TOLERANCE = 0.005;
+
+export type BudgetRevisionInput = Omit<BudgetRevision, 'id' | 'source'>;
+
+// Only manual entries are stored; scraped revisions are recomputed from the reports
+const manualRevisionsSchema = z.array(z.object({
+  id: z.string().min(1),
+  fleetId: z.string().min(1),
+  fiscalYear: z.int(),
+  effectiveDate: z.iso.date(),
+  amount: z.number().nonnegative(),
+  source: z.literal('manual'),
+  note: z.string().optional(),
+}));
+
+/**
+ * Check a manual revision, returning the problems found (empty when valid)
+ */
+export function validateBudgetRevision(revision: Partial<BudgetRevisionInput>): string[] {
+  const problems: string[] = [];
+
+  if (!revision.fleetId) problems.push('fleetId is required');
+  if (!Number.isInteger(revision.fiscalYear)) problems.push('fiscalYear must be a year, e.g. 2026');
+  if (!revision.effectiveDate || !/^\d{4}-\d{2}-\d{2}$/.test(revision.effectiveDate) || !isValid(parseISO(revision.effectiveDate))) {
+    problems.push('effectiveDate must be YYYY-MM-DD');
+  }
+  if (typeof revision.amount !== 'number' || !Number.isFinite(revision.amount) || revision.amount < 0) {
+    problems.push('amount must be a number >= 0');
+  }
+
+  return problems;
+}
+
+/**
+ * Manual revisions, all or one fleet's (empty when the store does not exist yet)
+ * Throws when the file is malformed, so adding or removing never overwrites it
+ */
+export async function loadBudgetRevisions(fleetId?: string): Promise<BudgetRevision[]> {
+  const revisions: BudgetRevision[] = (await readDataFile(BUDGET_HISTORY_FILE, manualRevisionsSchema)) ?? [];
+  return fleetId ? revisions.filter(revision => revision.fleetId === fleetId) : revisions;
+}
+
+async function saveBudgetRevisions(revisions: BudgetRevision[]): Promise<void> {
+  await fs.mkdir(path.dirname(BUDGET_HISTORY_FILE), { recursive: true });
+  const sorted = [...revisions].sort((a, b) => a.fleetId.localeCompare(b.fleetId) || a.effectiveDate.localeCompare(b.effectiveDate));
+  await fs.writeFile(BUDGET_HISTORY_FILE, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+export async function addBudgetRevision(revision: BudgetRevisionInput): Promise<BudgetRevision> {
+  const problems = validateBudgetRevision(revision);
+  if (problems.length > 0) {
+    throw new Error(`Invalid budget revision: ${problems.join('; ')}`);
+  }
+
+  const created: BudgetRevision = {
+    id: randomUUID(),
+    ...revision,
+    source: 'manual',
+    ...(revision.note?.trim() ? { note: revision.note.trim() } : {}),
+  };
+  await saveBudgetRevisions([...(await loadBudgetRevisions()), created]);
+  return created;
+}
+
+/**
+ * Remove a manual revision by id, returning false when it does not exist
+ */
+export async function removeBudgetRevision(id: string): Promise<boolean> {
+  const revisions = await loadBudgetRevisions();
+  const remaining = revisions.filter(revision => revision.id !== id);
+  if (remaining.length === revisions.length) return false;
+
+  await saveBudgetRevisions(remaining);
+  return true;
+}
+
+/**
+ * Goal changes between consecutive reports of one fiscal year (reports oldest first)
+ * The first report's goal counts from the fiscal year start, later changes from the report that first showed them
+ */
+export function detectBudgetRevisions(
+  reports: Array<{ reportDate: string; report: ScrapedFleetReport }>,
+  fiscalYear: number
+): BudgetRevision[] {
+  const revisions: BudgetRevision[] = [];
+
+  reports
+    .filter(({ report }) => report.fiscalYear === fiscalYear)
+    .forEach(({ reportDate, report }) => {
+      const previous = revisions[revisions.length - 1];
+      if (previous && Math.abs(previous.amount - report.imrGoal) < GOAL_TOLERANCE) return;
+
+      revisions.push({
+        fleetId: report.fleetId,
+        fiscalYear,
+        effectiveDate: previous ? reportDate : report.fiscalYearStart,
+        amount: report.imrGoal,
+        source: 'scraped',
+      });
+    });
+
+  return revisions;
+}
+
+/**
+ * A fleet's goal revisions for a fiscal year known on the as-of date (YYYY-MM-DD), oldest first
+ * Scraped and manual entries are merged; on the same date the manual entry comes first
+ */
+export async function getFleetBudgetHistory(
+  fleetId: string,
+  fiscalYear: number,
+  asOfDate: string,
+  options: { reportDates?: string[]; manualRevisions?: BudgetRevision[] } = {}
+): Promise<BudgetRevision[]> {
+  const reportDates = (options.reportDates ?? await listReportDates()).filter(date => date <= asOfDate);
+  const scraped = detectBudgetRevisions(await loadFleetReportHistory(fleetId, reportDates), fiscalYear);
+  const manual = (options.manualRevisions ?? await loadBudgetRevisions(fleetId)).filter(revision =>
+    revision.fleetId === fleetId && revision.fiscalYear === fiscalYear && revision.effectiveDate <= asOfDate
+  );
+
+  const sourceOrder = { manual: 0, scraped: 1 };
+  return [...manual, ...scraped].sort((a, b) =>
+    a.effectiveDate.localeCompare(b.effectiveDate) || sourceOrder[a.source] - sourceOrder[b.source]
+  );
+}
@@ -0,0 +1,202 @@
+import type { HTTPResponse, Page, ResourceType } from 'puppeteer';
+import path from 'path';
+import fs from 'fs/promises';
+import type { FiscalCalendarConfig } from '../config/fiscal-calendar';
+
+/**
+ * Cerberus Record / Replay Fixtures
+ * Records the pages and XHR responses a scrape sees, then serves them back through
+ * Puppeteer request interception so the scraper can run with no network and no SSO.
+ *
+ * Layout: fixtures/cerberus/<fleetId>/
+ *   manifest.json          - recorded requests, expected values, run date
+ *   responses/NNNN.body    - response bodies
+ *   snapshots/<view>.body  - DOM after each period switch (initial, Full Year, Year to Date)
+ */
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'cerberus');
+
+// Resource types worth recording - everything the page needs to render and switch periods
+const RECORDED_RESOURCE_TYPES: ResourceType[] = ['document', 'script', 'stylesheet', 'xhr', 'fetch', 'image', 'font'];
+
+// Never persist credentials; encoding/length no longer match the decoded body
+const STRIPPED_HEADERS = ['set-cookie', 'authorization', 'content-encoding', 'content-length', 'transfer-encoding'];
+
+export interface FixtureEntry {
+  method: string;
+  url: string;
+  resourceType: ResourceType;
+  status: number;
+  headers: Record<string, string>;
+  bodyFile?: string; // Relative to the fixture directory; absent for redirects
+}
+
+export interface FixtureManifest {
+  fleetId: string;
+  cerberusBaseUrl: string;
+  recordedAt: string; // ISO timestamp
+  asOf: string; // Run date the scrape was performed as (replay with the same date)
+  fiscalCalendar?: FiscalCalendarConfig; // Calendar the scrape ran with (replay with the same calendar)
+  expected: {
+    fleetName: string;
+    imrGoal: number;
+    ytdSpend: number;
+    spendHistoryRows: number;
+    // Reporting period and projection under fiscalCalendar; older recordings derive them on replay
+    fiscalYear?: number;
+    monthsElapsed?: number;
+    projectedEOY?: number;
+  };
+  entries: FixtureEntry[];
+  snapshots: Record<string, string>;
+}
+
+export interface FixtureRecorder {
+  snapshot(view: string): Promise<void>;
+  save(manifest: Pick<FixtureManifest, 'fleetId' | 'cerberusBaseUrl' | 'asOf' | 'fiscalCalendar' | 'expected'>): Promise<string>;
+}
+
+/**
+ * Request key used to match a replayed request to a recorded one
+ * Cache-busting "_" parameters are dropped so repeated XHRs still match
+ */
+function requestKey(method: string, url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.delete('_');
+  parsed.hash = '';
+  return `${method.toUpperCase()} ${parsed.toString()}`;
+}
+
+/**
+ * Start recording every response the page receives into fixtureDir
+ */
+export async function startRecording(page: Page, fixtureDir: string): Promise<FixtureRecorder> {
+  await fs.rm(fixtureDir, { recursive: true, force: true });
+  await fs.mkdir(path.join(fixtureDir, 'responses'), { recursive: true });
+  await fs.mkdir(path.join(fixtureDir, 'snapshots'), { recursive: true });
+
+  const entries: FixtureEntry[] = [];
+  const snapshots: Record<string, string> = {};
+  const pending: Promise<void>[] = [];
+
+  const record = async (response: HTTPResponse) => {
+    const request = response.request();
+    const resourceType = request.resourceType();
+    if (!RECORDED_RESOURCE_TYPES.includes(resourceType) || response.url().startsWith('data:')) return;
+
+    const headers = Object.fromEntries(
+      Object.entries(response.headers()).filter(([name]) => !STRIPPED_HEADERS.includes(name.toLowerCase()))
+    );
+    const entry: FixtureEntry = {
+      method: request.method(),
+      url: response.url(),
+      resourceType,
+      status: response.status(),
+      headers,
+    };
+    entries.push(entry);
+
+    // Redirect and preflight responses have no body
+    if (response.status() >= 300 && response.status() < 400) return;
+    try {
+      const bodyFile = path.join('responses', `${String(entries.length).padStart(4, '0')}.body`);
+      await fs.writeFile(path.join(fixtureDir, bodyFile), await response.buffer());
+      entry.bodyFile = bodyFile;
+    } catch {
+      // Body no longer available (navigation away, aborted request) - replay as empty
+    }
+  };
+
+  page.on('response', response => {
+    pending.push(record(response));
+  });
+
+  return {
+    async snapshot(view) {
+      const file = path.join('snapshots', `${view.toLowerCase().replace(/\s+/g, '-')}.body`);
+      await fs.writeFile(path.join(fixtureDir, file), await page.content(), 'utf-8');
+      snapshots[view] = file;
+    },
+
+    async save(manifest) {
+      await Promise.all(pending);
+      const full: FixtureManifest = {
+        ...manifest,
+        recordedAt: new Date().toISOString(),
+        entries,
+        snapshots,
+      };
+      const manifestPath = path.join(fixtureDir, 'manifest.json');
+      await fs.writeFile(manifestPath, JSON.stringify(full, null, 2), 'utf-8');
+      return manifestPath;
+    },
+  };
+}
+
+/**
+ * Read a recorded fixture manifest
+ */
+export async function readFixtureManifest(fixtureDir: string): Promise<FixtureManifest> {
+  return JSON.parse(await fs.readFile(path.join(fixtureDir, 'manifest.json'), 'utf-8'));
+}
+
+/**
+ * List recorded fixture directories (one per fleet)
+ */
+export async function listFixtures(fixturesDir: string = FIXTURES_DIR): Promise<string[]> {
+  try {
+    const dirs = await fs.readdir(fixturesDir);
+    const withManifest = await Promise.all(dirs.map(async dir => {
+      try {
+        await fs.access(path.join(fixturesDir, dir, 'manifest.json'));
+        return path.join(fixturesDir, dir);
+      } catch {
+        return null;
+      }
+    }));
+    return withManifest.filter((dir): dir is string => dir !== null).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serve every request of the page from a recorded fixture
+ * Repeated requests are answered in recorded order (the last recording repeats);
+ * unknown requests are aborted so nothing reaches the network
+ */
+export async function installReplay(page: Page, fixtureDir: string): Promise<void> {
+  const manifest = await readFixtureManifest(fixtureDir);
+  const recorded = new Map<string, FixtureEntry[]>();
+  const served = new Map<string, number>();
+
+  for (const entry of manifest.entries) {
+    const key = requestKey(entry.method, entry.url);
+    recorded.set(key, [...(recorded.get(key) || []), entry]);
+  }
+
+  await page.setRequestInterception(true);
+  page.on('request', async request => {
+    if (request.url().startsWith('data:')) {
+      await request.continue();
+      return;
+    }
+
+    const key = requestKey(request.method(), request.url());
+    const candidates = recorded.get(key);
+    if (!candidates) {
+      await request.abort('internetdisconnected');
+      return;
+    }
+
+    const count = served.get(key) || 0;
+    served.set(key, count + 1);
+    const entry = candidates[Math.min(count, candidates.length - 1)];
+
+    await request.respond({
+      status: entry.status,
+      headers: entry.headers,
+      body: entry.bodyFile ? await fs.readFile(path.join(fixtureDir, entry.bodyFile)) : '',
+    });
+  });
+}
@@ -1,6 +1,14 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, { Browser, CookieData, Page, TimeoutError } from 'puppeteer';
 import path from 'path';
 import fs from 'fs/promises';
+import { format, isValid, parse } from 'date-fns';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+import { isScraperError, ScraperError, toScraperError } from './scraper-errors';
+import { retryWithBackoff } from '../utils/retry';
+import { installReplay, startRecording, type FixtureRecorder } from './cerberus-fixtures';
+import { createHostLimiter, type HostLimiter, type HostPolitenessOptions } from '../utils/concurrency';
+import { DEFAULT_CURRENCY, detectCurrency } from '../utils/currency';
+import { CERBERUS_SELECTORS, PERIOD_BUTTON_TEXT, type CerberusView, type SelectorDefinition } from '../config/cerberus-selectors';
 
 /**
  * Cerberus Web Scraper Service
@@ -12,48 +20,87 @@ import fs from 'fs/promises';
 
 // Configuration
 const BROWSER_SESSION_DIR = path.join(process.cwd(), '.browser-session');
+const DEFAULT_SESSION_FILE = path.join(BROWSER_SESSION_DIR, 'storage-state.json');
 const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 const PAGE_LOAD_TIMEOUT = 30000; // 30 seconds
 
-// Cerberus selectors - Based on actual page structure and dual-period requirements
-const SELECTORS = {
-  // Fleet information
-  fleetName: 'strong', // "(F6) Planning Automation And Optimization"
-  fleetNameIndex: 0, // Use first strong element
-  fleetId: '[data-testid="mus-overview-fleetid"]', // "Fleet id: 8304669"
-  
-  // Period selection (dual-period strategy)
-  periodSelectorButton: 'button[data-class-name="mus-period-selector_button"]',
-  fullYearButtonText: 'Full Year', // Button text to find Full Year option
-  yearToDateButtonText: 'Year to Date', // Button text to find YTD option
-  
-  // Budget data (IMR Goal) - FROM FULL YEAR VIEW
-  budgetElements: '.awsui-key-children',
-  imrGoalIndex: 1, // Index 1 = IMR Goal, Index 0 = Estimated Year End
-  
-  // Spend data (YTD Actual) - FROM YEAR TO DATE VIEW
-  spendElements: '.mus-cell-right-aligned',
-  ytdSpendIndex: 1, // Index 1 = Total YTD Spend
-  
-  // Legacy selectors (for compatibility)
-  fiscalYear: '.fiscal-year, [data-label="Fiscal Year"]',
-  currency: '.currency',
-  usageTable: 'table',
-  usageTableRows: 'tbody tr',
-  spendTable: 'table.spend-table, table',
-  spendTableRows: 'tbody tr',
-  parentFleet: '.parent-fleet, [data-role="parent-fleet"]',
-  subFleetsList: '.sub-fleets-list, [data-role="sub-fleets"]',
-  subFleetItem: '.sub-fleet-item, [data-role="sub-fleet"]',
-};
-
 // Wait times for period switching
 const PERIOD_SELECTION_WAIT = 3000; // 3 seconds for data to reload after period change
 const DROPDOWN_OPEN_WAIT = 500; // 500ms for dropdown to appear
 
+// Sanity limit: YTD spend this many times the full-year budget means a wrong element or unit
+const MAX_YTD_TO_BUDGET_RATIO = 5;
+
+// Elements of the SSO login page (a redirect here means the session is gone)
+const LOGIN_FORM_SELECTORS = [
+  'input[type="password"]',
+  'input[name="username"]',
+  'input[name="email"]',
+  '.login-form',
+  '#login',
+];
+
 // Browser session management
 let browser: Browser | null = null;
 let sessionStartTime: number = 0;
+let loadedSessionFile: string | null = null;
+let browserLaunch: Promise<Browser> | null = null;
+
+// Per-host politeness for page loads - shared by every concurrent scrape in this process
+let hostLimiter: HostLimiter | null = null;
+
+/**
+ * Stage reported to onProgress while a fleet is scraped
+ */
+export type ScrapeStage = 'navigating' | 'full-year' | 'year-to-date' | 'calculating' | 'done';
+
+/**
+ * Scraper run options
+ * Defaults come from the environment so scripts and the API behave the same
+ */
+export interface ScraperOptions {
+  headless?: boolean; // HEADLESS_MODE=true
+  sessionFile?: string; // CERBERUS_SESSION_FILE - cookies or storage state exported after a manual login
+  interactive?: boolean; // Allow prompting for a manual login (default: visible browser on a TTY)
+  artifactsDir?: string; // Report directory for HTML/screenshot captures on extraction failure (default: reports/<today>)
+  asOf?: Date; // Run date the scrape is performed as - drives billing period and months elapsed (default: now)
+  record?: string; // Fixture directory to record pages and XHR responses into
+  replay?: string; // Fixture directory to serve all requests from (offline, no SSO)
+  onProgress?: (fleetId: string, stage: ScrapeStage) => void;
+  maxAttempts?: number; // SCRAPE_MAX_ATTEMPTS (default 3) - attempts per fleet for transient failures
+  retryBaseDelayMs?: number; // SCRAPE_RETRY_BASE_DELAY_MS (default 5000) - doubles after every retry
+}
+
+type ResolvedScraperOptions = ScraperOptions &
+  Required<Pick<ScraperOptions, 'headless' | 'interactive' | 'artifactsDir' | 'asOf' | 'maxAttempts' | 'retryBaseDelayMs'>>;
+
+function resolveScraperOptions(options: ScraperOptions = {}): ResolvedScraperOptions {
+  // Replay never needs a visible browser
+  const headless = options.headless ?? (Boolean(options.replay) || process.env.HEADLESS_MODE === 'true');
+
+  return {
+    ...options,
+    headless,
+    sessionFile: options.sessionFile ?? process.env.CERBERUS_SESSION_FILE,
+    interactive: options.interactive ?? (!headless && Boolean(process.stdin.isTTY)),
+    artifactsDir: options.artifactsDir ?? path.join(process.cwd(), 'reports', format(new Date(), 'yyyy-MM-dd')),
+    asOf: options.asOf ?? new Date(),
+    maxAttempts: options.maxAttempts ?? (parseInt(process.env.SCRAPE_MAX_ATTEMPTS || '', 10) || 3),
+    retryBaseDelayMs: options.retryBaseDelayMs ?? (parseInt(process.env.SCRAPE_RETRY_BASE_DELAY_MS || '', 10) || 5000),
+  };
+}
+
+/**
+ * Exported session: either a plain cookie array (browser devtools / puppeteer export)
+ * or a storage state ({ cookies, origins[].localStorage }) as written by export-session
+ */
+interface SessionState {
+  cookies: CookieData[];
+  origins?: Array<{
+    origin: string;
+    localStorage: Array<{ name: string; value: string }>;
+  }>;
+}
 
 /**
  * Complete Cerberus data combining budget and spend from dual-period views
@@ -62,13 +109,17 @@ export interface CerebusCompleteData {
   fleetId: string;
   fleetName: string;
   fiscalYear: number;
+  fiscalYearStart: Date;
+  fiscalYearEnd: Date;
   
   // Budget data (from Full Year view)
   imrGoal: number;
+  currency: string; // ISO 4217 code of every amount
   
   // Spend data (from Year to Date view)
   ytdSpend: number;
   ytdPeriodEnd: Date;
+  spendHistory: ScrapedSpendData[]; // Spend rows from the usage table, sorted by date
   
   // Calculated metrics
   monthsElapsed: number;
@@ -100,7 +151,7 @@ interface ScrapedFleetHierarchy {
   fleetId: string;
   fleetName: string;
   parentFleetId?: string;
-  subFleets: string[];
+  subFleets: string[]; // Direct child fleet ids
 }
 
 /**
@@ -119,6 +170,25 @@ export async function initBrowser(headless: boolean = false): Promise<Browser> {
     }
   }
 
+  // Concurrent callers share one launch instead of racing for the session profile
+  if (browserLaunch) {
+    return browserLaunch;
+  }
+  browserLaunch = launchBrowser(headless);
+  try {
+    browser = await browserLaunch;
+  } finally {
+    browserLaunch = null;
+  }
+
+  sessionStartTime = Date.now();
+  return browser;
+}
+
+/**
+ * Launch browser with persistent session
+ */
+async function launchBrowser(headless: boolean): Promise<Browser> {
   // Create session directory if it doesn't exist
   try {
     await fs.access(BROWSER_SESSION_DIR);
@@ -126,8 +196,7 @@ export async function initBrowser(headless: boolean = false): Promise<Browser> {
     await fs.mkdir(BROWSER_SESSION_DIR, { recursive: true });
   }
 
-  // Launch browser with persistent session
-  browser = await puppeteer.launch({
+  return puppeteer.launch({
     headless,
     userDataDir: BROWSER_SESSION_DIR,
     args: [
@@ -140,9 +209,47 @@ export async function initBrowser(headless: boolean = false): Promise<Browser> {
       '--disable-gpu',
     ],
   });
+}
 
-  sessionStartTime = Date.now();
-  return browser;
+/**
+ * Configure per-host politeness for page loads
+ * Defaults: SCRAPE_HOST_CONCURRENCY (2) loads in flight, SCRAPE_MIN_REQUEST_INTERVAL_MS (1000) between starts
+ */
+export function configureHostPoliteness(options: Partial<HostPolitenessOptions> = {}): void {
+  hostLimiter = createHostLimiter({
+    maxConcurrentPerHost: options.maxConcurrentPerHost ?? (parseInt(process.env.SCRAPE_HOST_CONCURRENCY || '', 10) || 2),
+    minIntervalMs: options.minIntervalMs ?? (parseInt(process.env.SCRAPE_MIN_REQUEST_INTERVAL_MS || '', 10) || 1000),
+  });
+}
+
+/**
+ * Navigate through the per-host politeness limiter
+ * Timeouts and network errors surface as NAVIGATION_TIMEOUT
+ */
+async function gotoPolitely(page: Page, url: string, timeout: number): Promise<void> {
+  if (!hostLimiter) {
+    configureHostPoliteness();
+  }
+  try {
+    await hostLimiter!.run(url, () => page.goto(url, { waitUntil: 'networkidle2', timeout }));
+  } catch (error) {
+    if (error instanceof TimeoutError || (error instanceof Error && error.message.includes('net::ERR_'))) {
+      throw new ScraperError('NAVIGATION_TIMEOUT', `Cerberus page did not load: ${error.message}`, { cause: error });
+    }
+    throw error;
+  }
+}
+
+/**
+ * True when the page shows the SSO login form instead of Cerberus
+ */
+async function hasLoginForm(page: Page): Promise<string | null> {
+  for (const selector of LOGIN_FORM_SELECTORS) {
+    if (await page.$(selector)) {
+      return selector;
+    }
+  }
+  return null;
 }
 
 /**
@@ -153,9 +260,58 @@ export async function closeBrowser(): Promise<void> {
     await browser.close();
     browser = null;
     sessionStartTime = 0;
+    loadedSessionFile = null;
+  }
+}
+
+/**
+ * Load cookies and localStorage from an exported session file into the browser
+ * Applied once per browser; localStorage is injected before any page script runs
+ */
+async function loadSessionState(browser: Browser, page: Page, sessionFile: string): Promise<void> {
+  let state: SessionState;
+  try {
+    const raw = JSON.parse(await fs.readFile(sessionFile, 'utf8'));
+    state = Array.isArray(raw) ? { cookies: raw } : raw;
+  } catch (error) {
+    throw new ScraperError(
+      'AUTH_REQUIRED',
+      `Cannot read session file ${sessionFile}: ${error instanceof Error ? error.message : error}`,
+      { cause: error }
+    );
+  }
+
+  if (loadedSessionFile !== sessionFile) {
+    await browser.setCookie(...(state.cookies || []));
+    loadedSessionFile = sessionFile;
+    console.log(`🍪 Loaded ${state.cookies?.length || 0} cookies from ${sessionFile}`);
+  }
+
+  if (state.origins && state.origins.length > 0) {
+    await page.evaluateOnNewDocument((origins: NonNullable<SessionState['origins']>) => {
+      const match = origins.find(o => o.origin === window.location.origin);
+      match?.localStorage.forEach(item => window.localStorage.setItem(item.name, item.value));
+    }, state.origins);
   }
 }
 
+/**
+ * Write the current browser session (cookies + localStorage of the Cerberus origin)
+ */
+async function writeSessionState(page: Page, sessionFile: string): Promise<void> {
+  const cookies = await page.browser().cookies();
+  const localStorage = await page.evaluate(() =>
+    Object.keys(window.localStorage).map(name => ({ name, value: window.localStorage.getItem(name) || '' }))
+  );
+  const state: SessionState = {
+    cookies,
+    origins: [{ origin: new URL(page.url()).origin, localStorage }],
+  };
+
+  await fs.mkdir(path.dirname(sessionFile), { recursive: true });
+  await fs.writeFile(sessionFile, JSON.stringify(state, null, 2), { encoding: 'utf8', mode: 0o600 });
+}
+
 /**
  * Create a new page with common settings
  */
@@ -176,6 +332,45 @@ async function createPage(browser: Browser): Promise<Page> {
   return page;
 }
 
+/**
+ * Save a full HTML snapshot and a screenshot of the page into <artifactsDir>/debug
+ * Best effort - a failed capture never hides the original error
+ */
+async function captureFailureArtifacts(page: Page, artifactsDir: string, name: string): Promise<string[]> {
+  const debugDir = path.join(artifactsDir, 'debug');
+  const stamp = format(new Date(), 'HHmmss');
+  const htmlPath = path.join(debugDir, `${name}-${stamp}.html`);
+  const screenshotPath = path.join(debugDir, `${name}-${stamp}.png`) as `${string}.png`;
+  
+  try {
+    await fs.mkdir(debugDir, { recursive: true });
+    await fs.writeFile(htmlPath, await page.content(), 'utf-8');
+    await page.screenshot({ path: screenshotPath, fullPage: true });
+    console.log(`   📸 Saved failure snapshot: ${htmlPath}`);
+    return [htmlPath, screenshotPath];
+  } catch (error) {
+    console.warn(`   ⚠️  Could not capture failure snapshot: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+}
+
+/**
+ * Run an extractor, capturing the page when it throws
+ */
+async function withFailureCapture<T>(
+  page: Page,
+  artifactsDir: string,
+  name: string,
+  extract: () => Promise<T>
+): Promise<T> {
+  try {
+    return await extract();
+  } catch (error) {
+    await captureFailureArtifacts(page, artifactsDir, name);
+    throw error;
+  }
+}
+
 /**
  * Check if user is logged in to Cerberus
  * Uses Cerberus-specific elements to determine login status
@@ -183,17 +378,17 @@ async function createPage(browser: Browser): Promise<Page> {
 async function isLoggedIn(page: Page, cerberusUrl: string): Promise<boolean> {
   try {
     console.log('🔍 Checking if already logged in...');
-    await page.goto(cerberusUrl, { waitUntil: 'networkidle2', timeout: PAGE_LOAD_TIMEOUT });
+    await gotoPolitely(page, cerberusUrl, PAGE_LOAD_TIMEOUT);
     
     // Wait a moment for page to fully render
     await new Promise(resolve => setTimeout(resolve, 2000));
     
     // Check for Cerberus-specific elements that only appear when logged in
     const cerberusIndicators = [
-      'button[data-class-name="mus-period-selector_button"]',  // Period selector button
-      '[data-testid="mus-overview-fleetid"]',                  // Fleet ID element
-      '.awsui-key-children',                                   // Budget elements
-      'strong',                                                 // Fleet name
+      CERBERUS_SELECTORS.periodSelectorButton.selector,  // Period selector button
+      CERBERUS_SELECTORS.fleetId.selector,               // Fleet ID element
+      CERBERUS_SELECTORS.imrGoal.selector,               // Budget elements
+      CERBERUS_SELECTORS.fleetName.selector,             // Fleet name
     ];
     
     // Check if ANY Cerberus element exists
@@ -211,26 +406,20 @@ async function isLoggedIn(page: Page, cerberusUrl: string): Promise<boolean> {
     }
     
     // Also check for login form indicators (inverse check)
-    const loginIndicators = [
-      'input[type="password"]',
-      'input[name="username"]',
-      'input[name="email"]',
-      '.login-form',
-      '#login',
-    ];
-    
-    for (const selector of loginIndicators) {
-      const element = await page.$(selector);
-      if (element) {
-        console.log(`⚠️  Not logged in - found login form element: ${selector}`);
-        return false; // Found login form, not logged in
-      }
+    const loginSelector = await hasLoginForm(page);
+    if (loginSelector) {
+      console.log(`⚠️  Not logged in - found login form element: ${loginSelector}`);
+      return false; // Found login form, not logged in
     }
     
     // If we found no Cerberus elements and no login form, assume not logged in
     console.log('⚠️  No Cerberus elements or login forms found - assuming not logged in');
     return false;
   } catch (error) {
+    // An unreachable Cerberus is an outage, not a login problem
+    if (isScraperError(error)) {
+      throw error;
+    }
     console.error('❌ Error checking login status:', error);
     return false;
   }
@@ -259,25 +448,20 @@ async function promptManualLogin(page: Page, cerberusUrl: string): Promise<void>
   });
 }
 
-/**
- * Ensure user is authenticated to Cerberus
- */
 /**
  * Ensure user is authenticated before scraping
  * Uses session timestamp to avoid repeated login checks
+ * Non-interactive runs fail fast with AUTH_REQUIRED instead of waiting for Enter
  */
-async function ensureAuthenticated(page: Page, cerberusUrl: string): Promise<void> {
-  const fs = await import('fs/promises');
-  const path = await import('path');
-  
-  const sessionDir = path.join(process.cwd(), '.browser-session');
-  const timestampFile = path.join(sessionDir, '.last-validated');
+async function ensureAuthenticated(page: Page, cerberusUrl: string, options: ResolvedScraperOptions): Promise<void> {
+  const timestampFile = path.join(BROWSER_SESSION_DIR, '.last-validated');
   const SESSION_VALIDITY_HOURS = 12; // Assume session valid for 12 hours
+  let hadSession = Boolean(options.sessionFile);
   
   try {
     // Check if we have a recent validation timestamp
-    const stats = await fs.stat(timestampFile);
     const lastValidated = parseInt(await fs.readFile(timestampFile, 'utf8'));
+    hadSession = true;
     const hoursSinceValidation = (Date.now() - lastValidated) / (1000 * 60 * 60);
     
     if (hoursSinceValidation < SESSION_VALIDITY_HOURS) {
@@ -286,7 +470,7 @@ async function ensureAuthenticated(page: Page, cerberusUrl: string): Promise<voi
     } else {
       console.log(`⏰ Session validation expired (${hoursSinceValidation.toFixed(1)}h old), checking login status...`);
     }
-  } catch (error) {
+  } catch {
     // Timestamp file doesn't exist or can't be read - proceed with login check
     console.log('🔐 First run or no cached session - checking login status...');
   }
@@ -296,26 +480,106 @@ async function ensureAuthenticated(page: Page, cerberusUrl: string): Promise<voi
   
   if (loggedIn) {
     console.log('✅ Already logged in to Cerberus');
-    // Save validation timestamp
-    try {
-      await fs.mkdir(sessionDir, { recursive: true });
-      await fs.writeFile(timestampFile, Date.now().toString());
-      console.log('💾 Session validated and cached');
-    } catch (err) {
-      console.warn('⚠️  Could not save session timestamp:', err);
-    }
+  } else if (!options.interactive) {
+    throw new ScraperError(
+      hadSession ? 'AUTH_EXPIRED' : 'AUTH_REQUIRED',
+      `${hadSession ? 'Cerberus session expired' : 'Not logged in to Cerberus'} and manual login is disabled (headless/non-interactive run). ` +
+      `Run 'npm run export-session' on a machine with a browser and set CERBERUS_SESSION_FILE.`
+    );
   } else {
     console.log('🔑 Authentication required...');
     await promptManualLogin(page, cerberusUrl);
-    // Save validation timestamp after successful login
+  }
+  
+  // Save validation timestamp
+  try {
+    await fs.mkdir(BROWSER_SESSION_DIR, { recursive: true });
+    await fs.writeFile(timestampFile, Date.now().toString());
+    console.log('💾 Session validated and cached');
+  } catch (err) {
+    console.warn('⚠️  Could not save session timestamp:', err);
+  }
+}
+
+/**
+ * Open a page on the shared browser with the exported session (if any) applied
+ */
+async function openSessionPage(options: Pick<ScraperOptions, 'headless' | 'sessionFile' | 'replay'>): Promise<Page> {
+  const browser = await initBrowser(options.headless);
+  const page = await createPage(browser);
+  
+  if (options.replay) {
+    await installReplay(page, options.replay);
+  } else if (options.sessionFile) {
     try {
-      await fs.mkdir(sessionDir, { recursive: true });
-      await fs.writeFile(timestampFile, Date.now().toString());
-      console.log('💾 Session authenticated and cached');
-    } catch (err) {
-      console.warn('⚠️  Could not save session timestamp:', err);
+      await loadSessionState(browser, page, options.sessionFile);
+    } catch (error) {
+      await page.close();
+      throw error;
     }
   }
+  
+  return page;
+}
+
+/**
+ * Check that the Cerberus session is valid before touching any fleet
+ * Always performs a live check (ignores the cached validation timestamp)
+ * Throws ScraperError('AUTH_REQUIRED') when the session is missing or expired
+ */
+export async function validateSession(
+  cerberusBaseUrl: string,
+  fleetId: string,
+  options: ScraperOptions = {}
+): Promise<void> {
+  const resolved = resolveScraperOptions(options);
+  const page = await openSessionPage(resolved);
+  
+  try {
+    const fleetUrl = buildCerberusUrl(cerberusBaseUrl, fleetId);
+    if (await isLoggedIn(page, fleetUrl)) {
+      await fs.mkdir(BROWSER_SESSION_DIR, { recursive: true });
+      await fs.writeFile(path.join(BROWSER_SESSION_DIR, '.last-validated'), Date.now().toString());
+      return;
+    }
+    
+    if (!resolved.interactive) {
+      throw new ScraperError(
+        resolved.sessionFile ? 'AUTH_EXPIRED' : 'AUTH_REQUIRED',
+        `Cerberus session is not valid${resolved.sessionFile ? ` (session file: ${resolved.sessionFile})` : ''}. ` +
+        `Run 'npm run export-session' and set CERBERUS_SESSION_FILE.`
+      );
+    }
+    
+    await ensureAuthenticated(page, fleetUrl, resolved);
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Log in once in a visible browser and export the session to a file
+ * so headless runs can import it with CERBERUS_SESSION_FILE
+ */
+export async function exportSession(
+  cerberusBaseUrl: string,
+  fleetId: string,
+  sessionFile: string = DEFAULT_SESSION_FILE
+): Promise<string> {
+  const page = await openSessionPage({ headless: false });
+  
+  try {
+    const fleetUrl = buildCerberusUrl(cerberusBaseUrl, fleetId);
+    if (!(await isLoggedIn(page, fleetUrl))) {
+      await promptManualLogin(page, fleetUrl);
+      await gotoPolitely(page, fleetUrl, 60000);
+    }
+    
+    await writeSessionState(page, sessionFile);
+    return sessionFile;
+  } finally {
+    await page.close();
+  }
 }
 
 /**
@@ -342,13 +606,15 @@ async function extractText(page: Page, selectors: string): Promise<string | null
 
 /**
  * Parse currency amount from string
- * Handles formats like: "$1,000,000", "1000000", "$1M", "$2.36MM", "$144.6K", etc.
+ * Handles formats like: "$1,000,000", "1000000", "$1M", "$2.36MM", "$144.6K", "€1.2M", "EUR 1.2M", etc.
  */
 function parseCurrencyAmount(value: string): number {
   if (!value) return 0;
   
-  // Remove currency symbols and whitespace
-  let cleaned = value.replace(/[$,\s]/g, '');
+  // Remove currency codes, symbols and whitespace
+  let cleaned = value
+    .replace(/(^|[^A-Z])[A-Z]{3}(?![A-Z])/g, '$1')
+    .replace(/[$€£¥₹,\s]/g, '');
   
   // Handle MM (millions) - special case for Cerberus format
   if (cleaned.toUpperCase().endsWith('MM')) {
@@ -372,6 +638,18 @@ function parseCurrencyAmount(value: string): number {
   return parseFloat(cleaned) || 0;
 }
 
+/**
+ * Parse a currency amount that must be present
+ * Throws CURRENCY_PARSE_FAILURE for text without a number (e.g. "—", "N/A", "Loading...")
+ */
+function parseRequiredCurrency(text: string, label: string): number {
+  const amount = parseCurrencyAmount(text);
+  if (!/\d/.test(text) || !Number.isFinite(amount)) {
+    throw new ScraperError('CURRENCY_PARSE_FAILURE', `Failed to parse ${label} from text: "${text}"`);
+  }
+  return amount;
+}
+
 /**
  * Parse fiscal year from string
  * Handles formats like: "FY 2026", "2026", "FY26", etc.
@@ -399,16 +677,16 @@ function parseFiscalYear(value: string): number {
  */
 async function selectPeriodByText(
   page: Page,
-  periodText: 'Full Year' | 'Year to Date'
+  periodText: CerberusView
 ): Promise<void> {
   try {
     console.log(`   🔄 Selecting "${periodText}" period...`);
     
     // Find all period selector buttons
-    const buttons = await page.$$('button[data-class-name="mus-period-selector_button"]');
+    const buttons = await page.$$(CERBERUS_SELECTORS.periodSelectorButton.selector);
     
     if (buttons.length === 0) {
-      throw new Error('No period selector buttons found');
+      throw new ScraperError('PERIOD_BUTTON_MISSING', 'No period selector buttons found');
     }
     
     // Find and click the button with matching text
@@ -423,7 +701,7 @@ async function selectPeriodByText(
     }
     
     if (!buttonFound) {
-      throw new Error(`Period button "${periodText}" not found. Available buttons: ${
+      throw new ScraperError('PERIOD_BUTTON_MISSING', `Period button "${periodText}" not found. Available buttons: ${
         await Promise.all(buttons.map(b => page.evaluate(el => el.textContent?.trim(), b)))
       }`);
     }
@@ -433,7 +711,8 @@ async function selectPeriodByText(
     
     console.log(`   ✅ Selected "${periodText}" period`);
   } catch (error) {
-    throw new Error(`Failed to select period "${periodText}": ${error instanceof Error ? error.message : error}`);
+    const cause = toScraperError(error);
+    throw new ScraperError(cause.code, `Failed to select period "${periodText}": ${cause.message}`, { cause: error });
   }
 }
 
@@ -443,56 +722,83 @@ async function selectPeriodByText(
  */
 async function extractIMRGoal(page: Page): Promise<number> {
   try {
-    const budgetElements = await page.$$('.awsui-key-children');
+    const { selector, index } = CERBERUS_SELECTORS.imrGoal;
+    const budgetElements = await page.$$(selector);
     
-    if (budgetElements.length < 2) {
-      throw new Error(`Expected at least 2 .awsui-key-children elements, found ${budgetElements.length}`);
+    if (budgetElements.length <= index) {
+      throw new ScraperError('SELECTOR_MISSING', `Expected at least ${index + 1} ${selector} elements, found ${budgetElements.length}`);
     }
     
     const imrGoalText = await page.evaluate(
       el => el.textContent?.trim() || '',
-      budgetElements[SELECTORS.imrGoalIndex]
+      budgetElements[index]
     );
     
     if (!imrGoalText) {
-      throw new Error('IMR Goal text is empty');
+      throw new ScraperError('SELECTOR_MISSING', 'IMR Goal text is empty');
     }
     
-    const imrGoal = parseCurrencyAmount(imrGoalText);
+    const imrGoal = parseRequiredCurrency(imrGoalText, 'IMR Goal');
     
-    if (imrGoal === 0) {
-      throw new Error(`Failed to parse IMR Goal from text: "${imrGoalText}"`);
+    if (imrGoal <= 0) {
+      throw new ScraperError('IMPLAUSIBLE_VALUE', `IMR Goal must be positive, got $${imrGoal.toLocaleString()} (raw: "${imrGoalText}")`);
     }
     
     console.log(`   ✅ IMR Goal: $${imrGoal.toLocaleString()} (raw: ${imrGoalText})`);
     return imrGoal;
   } catch (error) {
-    throw new Error(`Failed to extract IMR Goal: ${error instanceof Error ? error.message : error}`);
+    const cause = toScraperError(error);
+    throw new ScraperError(cause.code, `Failed to extract IMR Goal: ${cause.message}`, { cause: error });
   }
 }
 
+/**
+ * Extract the fleet's currency from Full Year view
+ * Read from the currency label when the page has one, else from the IMR Goal text; USD when neither names one
+ */
+async function extractCurrency(page: Page): Promise<string> {
+  const readText = async (selector: string, index = 0) => {
+    const elements = await page.$$(selector);
+    return elements.length > index
+      ? await page.evaluate(el => el.textContent?.trim() || '', elements[index])
+      : '';
+  };
+
+  const label = await readText(CERBERUS_SELECTORS.currency.selector);
+  const goalText = await readText(CERBERUS_SELECTORS.imrGoal.selector, CERBERUS_SELECTORS.imrGoal.index);
+  const currency = detectCurrency(label) ?? detectCurrency(goalText) ?? DEFAULT_CURRENCY;
+
+  console.log(`   ✅ Currency: ${currency}`);
+  return currency;
+}
+
 /**
  * Extract YTD Actual Spend from Year to Date view
  * Must be called after selecting "Year to Date" period
  */
 async function extractYTDSpend(page: Page): Promise<number> {
   try {
-    const spendElements = await page.$$('.mus-cell-right-aligned');
+    const { selector, index } = CERBERUS_SELECTORS.ytdSpend;
+    const spendElements = await page.$$(selector);
     
-    if (spendElements.length < 2) {
-      throw new Error(`Expected at least 2 .mus-cell-right-aligned elements, found ${spendElements.length}`);
+    if (spendElements.length <= index) {
+      throw new ScraperError('SELECTOR_MISSING', `Expected at least ${index + 1} ${selector} elements, found ${spendElements.length}`);
     }
     
     const ytdSpendText = await page.evaluate(
       el => el.textContent?.trim() || '',
-      spendElements[SELECTORS.ytdSpendIndex]
+      spendElements[index]
     );
     
     if (!ytdSpendText) {
-      throw new Error('YTD Spend text is empty');
+      throw new ScraperError('SELECTOR_MISSING', 'YTD Spend text is empty');
     }
     
-    const ytdSpend = parseCurrencyAmount(ytdSpendText);
+    const ytdSpend = parseRequiredCurrency(ytdSpendText, 'YTD Spend');
+    
+    if (ytdSpend < 0) {
+      throw new ScraperError('IMPLAUSIBLE_VALUE', `YTD Spend is negative: $${ytdSpend.toLocaleString()} (raw: "${ytdSpendText}")`);
+    }
     
     if (ytdSpend === 0) {
       console.warn(`   ⚠️  YTD Spend is $0 (raw: "${ytdSpendText}") - verify this is correct`);
@@ -501,103 +807,255 @@ async function extractYTDSpend(page: Page): Promise<number> {
     console.log(`   ✅ YTD Spend: $${ytdSpend.toLocaleString()} (raw: ${ytdSpendText})`);
     return ytdSpend;
   } catch (error) {
-    throw new Error(`Failed to extract YTD Spend: ${error instanceof Error ? error.message : error}`);
+    const cause = toScraperError(error);
+    throw new ScraperError(cause.code, `Failed to extract YTD Spend: ${cause.message}`, { cause: error });
   }
 }
 
 /**
- * Calculate months elapsed in fiscal year based on current date
- * Amazon fiscal year: Feb 1 - Jan 31
- * 
- * For reporting: If current month is January (month 1), we're in month 12 of fiscal year
- * Otherwise: reporting month number - 1
+ * Spend table shape as read from the page, before parsing
  */
-function calculateMonthsElapsed(fiscalYear: number): number {
-  const today = new Date();
-  const currentMonth = today.getMonth() + 1; // 1-12 (January = 1)
-  
-  // Report is for PREVIOUS month (run on 6th for prior month data)
-  // Calculate the reporting month (1-12)
-  let reportingMonth = currentMonth - 1;
-  
-  // Handle January edge case: if current is January, reporting month is December of previous year
-  if (reportingMonth === 0) {
-    reportingMonth = 12;
+interface RawUsageTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Date formats seen in Cerberus usage tables (daily rows first, then monthly rows)
+const SPEND_DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'M/d/yyyy', 'MMM d, yyyy', 'MMMM d, yyyy', 'yyyy-MM', 'MMM yyyy', 'MMMM yyyy'];
+
+/**
+ * Parse a spend row date into YYYY-MM-DD
+ * Monthly rows (e.g., "Jan 2026") map to the first day of the month
+ */
+function parseSpendDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  for (const dateFormat of SPEND_DATE_FORMATS) {
+    const parsed = parse(text, dateFormat, new Date());
+    if (isValid(parsed)) {
+      return format(parsed, 'yyyy-MM-dd');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse usage tables into spend rows
+ * Columns are located by header text (Date / Amount / Category), falling back to the
+ * first date-like and first currency-like cell of each row
+ */
+function parseUsageTables(tables: RawUsageTable[]): ScrapedSpendData[] {
+  const spend: ScrapedSpendData[] = [];
+
+  for (const table of tables) {
+    const findColumn = (pattern: RegExp) => table.headers.findIndex(header => pattern.test(header));
+    const dateColumn = findColumn(/date|month|period/i);
+    const amountColumn = findColumn(/amount|spend|cost|total/i);
+    const categoryColumn = findColumn(/category|service|type/i);
+
+    for (const cells of table.rows) {
+      const dateCell = dateColumn >= 0
+        ? cells[dateColumn]
+        : cells.find(cell => parseSpendDate(cell) !== null);
+      const amountCell = amountColumn >= 0
+        ? cells[amountColumn]
+        : cells.find(cell => /^[^\d-]*-?[\d,.]+\s*(MM|[KMB])?$/i.test(cell.trim()) && detectCurrency(cell) !== null);
+
+      const date = dateCell ? parseSpendDate(dateCell) : null;
+      if (!date || amountCell === undefined) continue;
+
+      spend.push({
+        date,
+        amount: parseCurrencyAmount(amountCell),
+        category: categoryColumn >= 0 ? cells[categoryColumn] || undefined : undefined,
+      });
+    }
+
+    // The first table with parseable rows is the usage table
+    if (spend.length > 0) break;
+  }
+
+  return spend.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Extract per-day (or per-month) spend rows from the Year to Date usage table
+ * Must be called after selecting "Year to Date" period
+ *
+ * Not fatal: returns an empty list when no usage table is found, the report
+ * then only carries YTD totals
+ */
+async function extractSpendHistory(page: Page, ytdSpend: number): Promise<ScrapedSpendData[]> {
+  try {
+    const tables: RawUsageTable[] = await page.$$eval(
+      CERBERUS_SELECTORS.spendTable.selector,
+      (elements, rowSelector) => elements.map(table => ({
+        headers: Array.from(table.querySelectorAll('thead th')).map(th => th.textContent?.trim() || ''),
+        rows: Array.from(table.querySelectorAll(rowSelector)).map(tr =>
+          Array.from(tr.querySelectorAll('td')).map(td => td.textContent?.trim() || '')
+        ),
+      })),
+      CERBERUS_SELECTORS.spendTableRows.selector
+    );
+
+    const spendHistory = parseUsageTables(tables);
+
+    if (spendHistory.length === 0) {
+      console.warn('   ⚠️  No spend rows found in usage table - monthly breakdown unavailable');
+      return [];
+    }
+
+    const total = spendHistory.reduce((sum, row) => sum + row.amount, 0);
+    console.log(`   ✅ Spend History: ${spendHistory.length} rows (${spendHistory[0].date} - ${spendHistory[spendHistory.length - 1].date})`);
+
+    // Rows should add up to the YTD total; a mismatch usually means a partial table or paging
+    if (ytdSpend > 0 && Math.abs(total - ytdSpend) / ytdSpend > 0.01) {
+      console.warn(`   ⚠️  Spend rows total $${total.toLocaleString()} differs from YTD Spend $${ytdSpend.toLocaleString()}`);
+    }
+
+    return spendHistory;
+  } catch (error) {
+    console.warn(`   ⚠️  Failed to extract spend history: ${error instanceof Error ? error.message : error}`);
+    return [];
   }
-  
-  // Calculate fiscal months elapsed for the REPORTING month
-  // Calendar FY: Jan=1, Feb=2, Mar=3, ..., Dec=12
-  // 
-  // Since fiscal year = calendar year:
-  // - Reporting month IS the fiscal month
-  // - January report = 1 month elapsed (end of January)
-  // - February report = 2 months elapsed (end of February)
-  // - December report = 12 months elapsed (end of year)
-  
-  return reportingMonth;
 }
 
 /**
  * Scrape complete budget and spend data from Cerberus using dual-period strategy
  * This is the main function that orchestrates Full Year + Year to Date scraping
+ *
+ * Failures are thrown as ScraperError; transient ones (navigation timeout, period buttons
+ * not rendered) are retried with exponential backoff, each attempt on a fresh page
  */
 export async function scrapeCerebusComplete(
   fleetId: string,
-  cerberusBaseUrl: string
+  cerberusBaseUrl: string,
+  options: ScraperOptions = {}
 ): Promise<CerebusCompleteData> {
-  const browser = await initBrowser(false); // Visible browser for SSO
-  const page = await createPage(browser);
+  const resolved = resolveScraperOptions(options);
+  return withRetries(fleetId, resolved, () => scrapeFleetAttempt(fleetId, cerberusBaseUrl, resolved));
+}
+
+/**
+ * Retry transient scraper failures with exponential backoff
+ * The final ScraperError carries the number of attempts made
+ */
+async function withRetries<T>(
+  fleetId: string,
+  resolved: ResolvedScraperOptions,
+  task: () => Promise<T>
+): Promise<T> {
+  return retryWithBackoff(
+    async attempt => {
+      try {
+        return await task();
+      } catch (error) {
+        const scraperError = toScraperError(error);
+        scraperError.attempts = attempt;
+        throw scraperError;
+      }
+    },
+    {
+      maxAttempts: resolved.maxAttempts,
+      baseDelayMs: resolved.retryBaseDelayMs,
+      shouldRetry: error => isScraperError(error) && error.transient,
+      onRetry: (error, attempt, delayMs) => {
+        const code = isScraperError(error) ? error.code : 'UNKNOWN';
+        console.warn(`\n🔁 Fleet ${fleetId}: ${code} on attempt ${attempt}/${resolved.maxAttempts}, retrying in ${(delayMs / 1000).toFixed(0)}s with a fresh page...`);
+      },
+    }
+  );
+}
+
+/**
+ * One scrape attempt on a fresh page
+ */
+async function scrapeFleetAttempt(
+  fleetId: string,
+  cerberusBaseUrl: string,
+  resolved: ResolvedScraperOptions
+): Promise<CerebusCompleteData> {
+  const page = await openSessionPage(resolved); // Visible browser for SSO unless headless
+  
+  let recorder: FixtureRecorder | null = null;
   
   try {
     // Navigate to fleet page
-    const fleetUrl = buildCerberusUrl(cerberusBaseUrl, fleetId);
-    console.log(`\n📡 Fleet ${fleetId}: Navigating to Cerberus...`);
+    const fleetUrl = buildCerberusUrl(cerberusBaseUrl, fleetId, getBillingPeriod(resolved.asOf));
+    console.log(`\n📡 Fleet ${fleetId}: Navigating to Cerberus${resolved.replay ? ' (replay)' : ''}...`);
+    resolved.onProgress?.(fleetId, 'navigating');
     
-    await ensureAuthenticated(page, fleetUrl);
-    await page.goto(fleetUrl, { waitUntil: 'networkidle2', timeout: 60000 });
+    if (!resolved.replay) {
+      await ensureAuthenticated(page, fleetUrl, resolved);
+    }
+    if (resolved.record) {
+      recorder = await startRecording(page, resolved.record);
+    }
+    await gotoPolitely(page, fleetUrl, 60000);
     await new Promise(resolve => setTimeout(resolve, 2000));
+    await recorder?.snapshot('Initial');
+    
+    // A cached validation can outlive the SSO session - Cerberus then serves the login page
+    const loginSelector = await hasLoginForm(page);
+    if (loginSelector) {
+      throw new ScraperError('AUTH_EXPIRED', `Cerberus redirected to the login page (found ${loginSelector}). Run 'npm run export-session' or log in again.`);
+    }
     
     console.log(`✅ Fleet ${fleetId}: Page loaded\n`);
     
     // ===== EXTRACT FROM FULL YEAR VIEW =====
     console.log(`📊 Fleet ${fleetId}: Extracting from Full Year view...`);
-    await selectPeriodByText(page, 'Full Year');
+    resolved.onProgress?.(fleetId, 'full-year');
+    await selectPeriodByText(page, PERIOD_BUTTON_TEXT.fullYear);
+    await recorder?.snapshot(PERIOD_BUTTON_TEXT.fullYear);
     
     // Extract IMR Goal
-    const imrGoal = await extractIMRGoal(page);
+    const imrGoal = await withFailureCapture(page, resolved.artifactsDir, `fleet-${fleetId}-imr-goal`, () => extractIMRGoal(page));
+    const currency = await extractCurrency(page);
     
     // Extract fleet metadata (same in both views)
-    const fleetNameElements = await page.$$('strong');
-    const fleetName = fleetNameElements.length > 0
-      ? await page.evaluate(el => el.textContent?.trim() || '', fleetNameElements[0])
+    const fleetNameElements = await page.$$(CERBERUS_SELECTORS.fleetName.selector);
+    const fleetName = fleetNameElements.length > CERBERUS_SELECTORS.fleetName.index
+      ? await page.evaluate(el => el.textContent?.trim() || '', fleetNameElements[CERBERUS_SELECTORS.fleetName.index])
       : `Fleet ${fleetId}`;
     
     console.log(`   ✅ Fleet Name: ${fleetName}\n`);
     
     // ===== EXTRACT FROM YEAR TO DATE VIEW =====
     console.log(`📊 Fleet ${fleetId}: Extracting from Year to Date view...`);
-    await selectPeriodByText(page, 'Year to Date');
+    resolved.onProgress?.(fleetId, 'year-to-date');
+    await selectPeriodByText(page, PERIOD_BUTTON_TEXT.yearToDate);
+    await recorder?.snapshot(PERIOD_BUTTON_TEXT.yearToDate);
     
     // Extract YTD Spend
-    const ytdSpend = await extractYTDSpend(page);
+    const ytdSpend = await withFailureCapture(page, resolved.artifactsDir, `fleet-${fleetId}-ytd-spend`, () => extractYTDSpend(page));
     
-    // ===== CALCULATE METRICS =====
-    console.log(`\n📈 Fleet ${fleetId}: Calculating forecast metrics...`);
+    // Extract per-day / per-month spend rows backing the YTD total
+    const spendHistory = await extractSpendHistory(page, ytdSpend);
     
-    // Determine current fiscal year (Calendar year: Jan 1 - Dec 31)
-    const today = new Date();
-    const currentMonth = today.getMonth() + 1; // 1-12 (January = 1)
-    const currentYear = today.getFullYear();
+    // YTD far above the full-year budget means we read the wrong element or unit
+    if (ytdSpend > imrGoal * MAX_YTD_TO_BUDGET_RATIO) {
+      await captureFailureArtifacts(page, resolved.artifactsDir, `fleet-${fleetId}-implausible`);
+      throw new ScraperError(
+        'IMPLAUSIBLE_VALUE',
+        `YTD Spend $${ytdSpend.toLocaleString()} is more than ${MAX_YTD_TO_BUDGET_RATIO}x the IMR Goal $${imrGoal.toLocaleString()}`
+      );
+    }
     
-    // Fiscal year is simply the calendar year
-    const fiscalYear = currentYear;
+    // ===== CALCULATE METRICS =====
+    console.log(`\n📈 Fleet ${fleetId}: Calculating forecast metrics...`);
+    resolved.onProgress?.(fleetId, 'calculating');
     
-    const monthsElapsed = calculateMonthsElapsed(fiscalYear);
-    const monthsRemaining = 12 - monthsElapsed;
+    // Report covers the previous (closed) fiscal month of the configured fiscal calendar
+    const today = resolved.asOf;
+    const calendar = getFiscalCalendar();
+    const { fiscalYear, monthsElapsed, monthsRemaining } = calendar.getReportingPeriod(today);
     
     // Calculate burn rate and projection
     const monthlyBurnRate = ytdSpend / monthsElapsed;
-    const projectedEOY = monthlyBurnRate * 12;
+    const projectedEOY = monthlyBurnRate * calendar.monthsInYear;
     
     // Calculate variance
     const variance = imrGoal - projectedEOY;
@@ -608,23 +1066,49 @@ export async function scrapeCerebusComplete(
     
     const isOverBudget = projectedEOY > imrGoal;
     
-    console.log(`   Months Elapsed: ${monthsElapsed}/12`);
+    console.log(`   Fiscal Year: ${calendar.getFiscalYearLabel(fiscalYear)}`);
+    console.log(`   Months Elapsed: ${monthsElapsed}/${calendar.monthsInYear}`);
     console.log(`   Monthly Burn Rate: $${monthlyBurnRate.toLocaleString('en-US', { maximumFractionDigits: 0 })}`);
     console.log(`   Projected EOY: $${projectedEOY.toLocaleString('en-US', { maximumFractionDigits: 0 })}`);
     console.log(`   Variance: $${variance.toLocaleString('en-US', { maximumFractionDigits: 0 })} (${variancePercent.toFixed(1)}%)`);
     console.log(`   Status: ${isOverBudget ? '⚠️  OVER Budget' : '✅ UNDER Budget'}`);
     
+    if (recorder) {
+      const manifestPath = await recorder.save({
+        fleetId,
+        cerberusBaseUrl,
+        asOf: today.toISOString(),
+        fiscalCalendar: calendar.config,
+        expected: {
+          fleetName,
+          imrGoal,
+          ytdSpend,
+          spendHistoryRows: spendHistory.length,
+          fiscalYear,
+          monthsElapsed,
+          projectedEOY,
+        },
+      });
+      console.log(`   💾 Fixture recorded: ${manifestPath}`);
+    }
+    
+    resolved.onProgress?.(fleetId, 'done');
+    
     return {
       fleetId,
       fleetName,
       fiscalYear,
+      fiscalYearStart: calendar.getFiscalYearStart(fiscalYear),
+      fiscalYearEnd: calendar.getFiscalYearEnd(fiscalYear),
       
       // From Full Year view
       imrGoal,
+      currency,
       
       // From Year to Date view
       ytdSpend,
       ytdPeriodEnd: today,
+      spendHistory,
       
       // Calculated metrics
       monthsElapsed,
@@ -637,14 +1121,162 @@ export async function scrapeCerebusComplete(
       isOverBudget,
     };
   } catch (error) {
-    console.error(`\n❌ Fleet ${fleetId}: Scraping failed -`, error);
-    throw error;
+    const scraperError = toScraperError(error);
+    console.error(`\n❌ Fleet ${fleetId}: Scraping failed - ${scraperError.code}: ${scraperError.message}`);
+    throw scraperError;
   } finally {
     await page.close();
     console.log(`\n✅ Fleet ${fleetId}: Browser page closed\n`);
   }
 }
 
+/**
+ * Read parent and sub-fleet links from a fleet page
+ * Fleet ids come from the link's fleetId parameter, falling back to a long number in the text
+ */
+async function extractFleetHierarchy(page: Page, fleetId: string): Promise<ScrapedFleetHierarchy> {
+  const readFleetIds = (elements: Element[]) => elements.map(el => {
+    const link = el.matches('a[href]') ? el : el.querySelector('a[href]');
+    const href = link?.getAttribute('href') || '';
+    const fromHref = href.match(/[?&]fleetId=(\d+)/);
+    const fromText = (el.textContent || '').match(/\b(\d{6,})\b/);
+    return fromHref?.[1] || fromText?.[1] || null;
+  });
+  
+  const parentIds = await page.$$eval(CERBERUS_SELECTORS.parentFleet.selector, readFleetIds);
+  const subFleetIds = await page.$$eval(CERBERUS_SELECTORS.subFleetItem.selector, readFleetIds);
+  
+  const fleetNameElements = await page.$$(CERBERUS_SELECTORS.fleetName.selector);
+  const fleetName = fleetNameElements.length > CERBERUS_SELECTORS.fleetName.index
+    ? await page.evaluate(el => el.textContent?.trim() || '', fleetNameElements[CERBERUS_SELECTORS.fleetName.index])
+    : `Fleet ${fleetId}`;
+  
+  const parentFleetId = parentIds.find((id): id is string => id !== null && id !== fleetId);
+  const subFleets = Array.from(new Set(subFleetIds.filter((id): id is string => id !== null && id !== fleetId)));
+  
+  return { fleetId, fleetName, parentFleetId, subFleets };
+}
+
+/**
+ * Scrape a fleet's name, parent and direct sub-fleets (no period switching)
+ */
+export async function scrapeFleetHierarchy(
+  fleetId: string,
+  cerberusBaseUrl: string,
+  options: ScraperOptions = {}
+): Promise<ScrapedFleetHierarchy> {
+  const resolved = resolveScraperOptions(options);
+  
+  return withRetries(fleetId, resolved, async () => {
+    const page = await openSessionPage(resolved);
+    
+    try {
+      const fleetUrl = buildCerberusUrl(cerberusBaseUrl, fleetId, getBillingPeriod(resolved.asOf));
+      if (!resolved.replay) {
+        await ensureAuthenticated(page, fleetUrl, resolved);
+      }
+      await gotoPolitely(page, fleetUrl, 60000);
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      
+      const loginSelector = await hasLoginForm(page);
+      if (loginSelector) {
+        throw new ScraperError('AUTH_EXPIRED', `Cerberus redirected to the login page (found ${loginSelector}).`);
+      }
+      
+      return await extractFleetHierarchy(page, fleetId);
+    } finally {
+      await page.close();
+    }
+  });
+}
+
+/**
+ * Result of checking one registry selector against a live page
+ */
+export interface SelectorCheckResult {
+  name: string;
+  selector: string;
+  view: CerberusView | 'Initial';
+  required: boolean;
+  matched: boolean;
+  count: number;
+  text: string | null; // Text of the element the scraper reads (index, or first match)
+  error?: string;
+}
+
+/**
+ * Check every selector in the registry against a fleet page
+ * View-independent selectors are checked on the initial page, the rest after
+ * switching to their period. Captures HTML + screenshot when a required selector misses.
+ */
+export async function checkSelectors(
+  fleetId: string,
+  cerberusBaseUrl: string,
+  options: ScraperOptions = {}
+): Promise<SelectorCheckResult[]> {
+  const resolved = resolveScraperOptions(options);
+  const page = await openSessionPage(resolved);
+  const registry = Object.entries(CERBERUS_SELECTORS) as Array<[string, SelectorDefinition]>;
+  const results: SelectorCheckResult[] = [];
+  
+  const checkView = async (view: CerberusView | 'Initial') => {
+    for (const [name, definition] of registry) {
+      if ((definition.view || 'Initial') !== view) continue;
+      
+      const result: SelectorCheckResult = {
+        name,
+        selector: definition.selector,
+        view,
+        required: definition.required,
+        matched: false,
+        count: 0,
+        text: null,
+      };
+      
+      try {
+        const elements = await page.$$(definition.selector);
+        const index = definition.index ?? 0;
+        result.count = elements.length;
+        result.matched = elements.length > index;
+        if (result.matched) {
+          const text = await page.evaluate(el => el.textContent?.trim() || '', elements[index]);
+          result.text = text.length > 80 ? `${text.slice(0, 77)}...` : text;
+        }
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      
+      results.push(result);
+    }
+  };
+  
+  try {
+    const fleetUrl = buildCerberusUrl(cerberusBaseUrl, fleetId);
+    await ensureAuthenticated(page, fleetUrl, resolved);
+    await gotoPolitely(page, fleetUrl, 60000);
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    
+    await checkView('Initial');
+    
+    for (const view of [PERIOD_BUTTON_TEXT.fullYear, PERIOD_BUTTON_TEXT.yearToDate]) {
+      try {
+        await selectPeriodByText(page, view);
+      } catch (error) {
+        console.warn(`   ⚠️  ${error instanceof Error ? error.message : error}`);
+      }
+      await checkView(view);
+    }
+    
+    if (results.some(r => r.required && !r.matched)) {
+      await captureFailureArtifacts(page, resolved.artifactsDir, `fleet-${fleetId}-selectors`);
+    }
+    
+    return results;
+  } finally {
+    await page.close();
+  }
+}
+
 /**
  * Build Cerberus URL with fleet ID and billing period
  */
@@ -654,8 +1286,7 @@ function buildCerberusUrl(
   billingPeriod?: string
 ): string {
   // Get current fiscal year billing period (format: YYYY-MM-01)
-  const now = new Date();
-  const defaultBillingPeriod = billingPeriod || `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
+  const defaultBillingPeriod = billingPeriod || getBillingPeriod();
   
   // Construct URL: /usage?fleetId=X&billingPeriod=Y&activeTab=usage-imr-goal
   const url = new URL('/usage', cerberusBaseUrl);
@@ -666,5 +1297,15 @@ function buildCerberusUrl(
   return url.toString();
 }
 
+/**
+ * Billing period for a run date (format: YYYY-MM-01)
+ */
+function getBillingPeriod(date: Date = new Date()): string {
+  return format(date, 'yyyy-MM-01');
+}
+
+// Exported for offline replay tests
+export { selectPeriodByText, extractIMRGoal, extractCurrency, extractYTDSpend, extractSpendHistory, buildCerberusUrl };
+
 // Export types
 export type { ScrapedBudgetData, ScrapedSpendData, ScrapedFleetHierarchy };
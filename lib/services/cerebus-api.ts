@@ -1,61 +1,43 @@
-import type { BudgetData, SpendData, CerebrusApiResponse, ApiError, ForecastResult } from '../types';
-import { calculateForecast, aggregateFleetData } from './forecast-calculator';
-import { validateFiscalYearDate, getFiscalYear } from '../utils/date-utils';
+import { format } from 'date-fns';
+import type { BudgetData, SpendData, CerebrusApiResponse, ApiError, ForecastResult, ForecastModelId } from '../types';
+import { calculateForecast, rollupFleetForecast } from './forecast-calculator';
+import { validateFiscalYearDate } from '../utils/date-utils';
+import { getDataSourceConfig } from '../config/data-source';
+import { getRollupMode } from '../config/fleet-hierarchy';
+import { getFleetDataSource, toBudgetData, toSpendData } from './fleet-data-source';
+import { createMockDataSource } from './mock-data-source';
+import { getDefaultForecastModel } from './forecast-models';
+import { loadForecastAdjustments } from './forecast-adjustments';
+import { getFleetBudgetHistory, loadBudgetRevisions } from './budget-history';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+import { convertForecastResult, DEFAULT_CURRENCY, getReportingCurrency } from '../utils/currency';
+import { loadFxRates } from './fx-rates';
 
 /**
  * Cerebus API Service
  * Handles all interactions with the Cerebus API
  * 
  * Requirements 1 & 2: Retrieve Budget and Spend Data from Cerebus
+ * Data comes from the configured FleetDataSource (scraper, HTTP API or mock)
  */
 
-const CEREBUS_BASE_URL = process.env.NEXT_PUBLIC_CEREBUS_URL || 'https://cerberus.cloudtune.amazon.dev';
-
 /**
- * Mock data generator for development/testing
- * Replace with actual API calls in production
+ * Fleet response from the configured source, falling back to mock data when enabled
  */
-function generateMockData(fleetId: string): CerebrusApiResponse {
-  const currentYear = new Date().getFullYear();
-  const monthsData: Array<{ date: string; amount: number }> = [];
-  
-  // Generate mock spend data for each month
-  for (let month = 0; month < new Date().getMonth() + 1; month++) {
-    const daysInMonth = new Date(currentYear, month + 1, 0).getDate();
-    for (let day = 1; day <= daysInMonth; day++) {
-      // Only generate data up to current day for current month
-      if (month === new Date().getMonth() && day > new Date().getDate()) {
-        break;
-      }
-      monthsData.push({
-        date: `${currentYear}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
-        amount: Math.random() * 1000 + 500, // Random daily spend between $500-$1500
-      });
+async function fetchFleet(fleetId: string): Promise<CerebrusApiResponse> {
+  const config = getDataSourceConfig();
+  const source = getFleetDataSource(config);
+
+  try {
+    return await source.getFleet(fleetId);
+  } catch (error) {
+    if (!config.fallbackToMock || source.kind === 'mock') {
+      throw error;
     }
+    const message = error instanceof Error ? error.message : (error as ApiError)?.message ?? error;
+    console.error(`⚠️  ${source.kind} data source failed for fleet ${fleetId}, falling back to mock data: ${message}`);
+    return createMockDataSource().getFleet(fleetId);
   }
-
-  return {
-    budget: {
-      total: 500000, // $500K annual budget
-      fleetId,
-      fleetName: `Fleet ${fleetId}`,
-    },
-    spend: monthsData.map(data => ({ ...data, fleetId })),
-    subFleets: [
-      {
-        fleetId: `${fleetId}-sub1`,
-        fleetName: `Sub-Fleet ${fleetId}-1`,
-        budget: 150000,
-        spend: monthsData.map(data => ({ ...data, amount: data.amount * 0.3 })),
-      },
-      {
-        fleetId: `${fleetId}-sub2`,
-        fleetName: `Sub-Fleet ${fleetId}-2`,
-        budget: 100000,
-        spend: monthsData.map(data => ({ ...data, amount: data.amount * 0.2 })),
-      },
-    ],
-  };
 }
 
 /**
@@ -64,27 +46,10 @@ function generateMockData(fleetId: string): CerebrusApiResponse {
  */
 export async function getBudgetData(fleetId: string): Promise<BudgetData> {
   try {
-    // TODO: Replace with actual API call
-    // const response = await fetch(`${CEREBUS_BASE_URL}/api/budget/${fleetId}`);
-    // if (!response.ok) throw new Error(`API returned ${response.status}`);
-    // const data = await response.json();
-    
-    // Using mock data for now
-    const mockData = generateMockData(fleetId);
-    
-    if (!mockData.budget) {
-      throw new Error(`No budget data found for fleet ${fleetId}`);
-    }
-
-    return {
-      fleetId: mockData.budget.fleetId,
-      fleetName: mockData.budget.fleetName,
-      budget: mockData.budget.total,
-      fiscalYear: getFiscalYear(),
-    };
+    return toBudgetData(await fetchFleet(fleetId), fleetId);
   } catch (error) {
     const apiError: ApiError = {
-      message: error instanceof Error ? error.message : 'Failed to retrieve budget data from Cerebus',
+      message: error instanceof Error ? error.message : (error as ApiError)?.message ?? 'Failed to retrieve budget data from Cerebus',
       code: 'BUDGET_FETCH_ERROR',
     };
     throw apiError;
@@ -97,24 +62,10 @@ export async function getBudgetData(fleetId: string): Promise<BudgetData> {
  */
 export async function getSpendData(fleetId: string): Promise<SpendData[]> {
   try {
-    // TODO: Replace with actual API call
-    // const fiscalYearStart = getFiscalYearStart();
-    // const today = new Date();
-    // const response = await fetch(
-    //   `${CEREBUS_BASE_URL}/api/spend/${fleetId}?start=${fiscalYearStart}&end=${today}`
-    // );
-    // if (!response.ok) throw new Error(`API returned ${response.status}`);
-    // const data = await response.json();
-    
-    // Using mock data for now
-    const mockData = generateMockData(fleetId);
-    
-    if (!mockData.spend) {
-      return []; // Return empty array if no spend data (Requirement 2, AC 5)
-    }
+    const spend = toSpendData(await fetchFleet(fleetId));
 
     // Validate dates are within fiscal year boundaries (Requirement 8)
-    const validatedSpend = mockData.spend.filter((spend) => {
+    const validatedSpend = spend.filter((spend) => {
       const spendDate = new Date(spend.date);
       const validation = validateFiscalYearDate(spendDate);
       return validation.isValid;
@@ -123,7 +74,7 @@ export async function getSpendData(fleetId: string): Promise<SpendData[]> {
     return validatedSpend;
   } catch (error) {
     const apiError: ApiError = {
-      message: error instanceof Error ? error.message : 'Failed to retrieve spend data from Cerebus',
+      message: error instanceof Error ? error.message : (error as ApiError)?.message ?? 'Failed to retrieve spend data from Cerebus',
       code: 'SPEND_FETCH_ERROR',
     };
     throw apiError;
@@ -132,83 +83,85 @@ export async function getSpendData(fleetId: string): Promise<SpendData[]> {
 
 /**
  * Requirement 7: Aggregate Fleet and Sub-Fleet Data
- * Retrieves and aggregates data for a fleet including all sub-fleets
- * Now uses real Cerberus scraping with mock data fallback
+ * Forecast for a fleet and its sub-fleets read live from the configured FleetDataSource, rolled up
+ * like /api/fleet (rollup modes, unallocated line, rollupCheck). /api/fleet itself forecasts from the
+ * scraped reports (lib/services/fleet-forecast.ts); this is what `npm run data-source-forecast` prints.
  */
-export async function getFleetForecast(fleetId: string): Promise<ForecastResult> {
-  const cerberusUrl = process.env.CERBERUS_URL || CEREBUS_BASE_URL;
-  
-  // Try real scraper if URL is configured and we're on server-side
-  if (typeof window === 'undefined' && cerberusUrl && cerberusUrl !== 'https://cerberus.cloudtune.amazon.dev') {
-    try {
-      console.log(`\n🔄 Attempting to scrape real Cerberus data for fleet ${fleetId}...`);
-      
-      // Dynamic import only on server-side when needed
-      const { scrapeCerebusComplete } = await import('./cerberus-scraper');
-      const scraped = await scrapeCerebusComplete(fleetId, cerberusUrl);
-      
-      console.log(`✅ Successfully scraped fleet ${fleetId} from Cerberus\n`);
-      
-      // Transform scraped data using forecast calculator for proper format
-      // Create mock spend data from YTD total
-      const mockSpendData: SpendData[] = [{
-        fleetId: scraped.fleetId,
-        date: new Date().toISOString().split('T')[0],
-        amount: scraped.ytdSpend / scraped.monthsElapsed, // Spread across months
-      }];
-      
-      return calculateForecast(
-        scraped.fleetId,
-        scraped.fleetName,
-        scraped.imrGoal,
-        mockSpendData
-      );
-    } catch (error) {
-      console.error(`⚠️  Scraping failed for fleet ${fleetId}, falling back to mock data:`, error);
-      // Fall through to mock data
-    }
-  } else {
-    console.log(`ℹ️  No CERBERUS_URL configured or using default, using mock data for fleet ${fleetId}`);
-  }
-  
-  // Fallback to mock data
+export async function getDataSourceForecast(
+  fleetId: string,
+  options: { model?: ForecastModelId; currency?: string } = {}
+): Promise<ForecastResult> {
   try {
-    const mockData = generateMockData(fleetId);
+    const fleet = await fetchFleet(fleetId);
+    const model = options.model ?? getDefaultForecastModel();
+    const adjustments = await loadForecastAdjustments();
+    const adjustmentsFor = (id: string) => adjustments.filter(adjustment => adjustment.fleetId === id);
+    const manualRevisions = await loadBudgetRevisions();
+    const budgetHistoryFor = (id: string) => getFleetBudgetHistory(
+      id,
+      getFiscalCalendar().getFiscalYear(),
+      format(new Date(), 'yyyy-MM-dd'),
+      { manualRevisions }
+    );
     
-    if (!mockData.budget) {
+    if (!fleet.budget) {
       throw new Error(`Fleet ${fleetId} not found`);
     }
+    const currency = fleet.budget.currency ?? DEFAULT_CURRENCY;
+    const fxRates = await loadFxRates();
 
     // Get main fleet forecast
     const mainFleetForecast = calculateForecast(
-      mockData.budget.fleetId,
-      mockData.budget.fleetName,
-      mockData.budget.total,
-      mockData.spend || []
+      fleet.budget.fleetId,
+      fleet.budget.fleetName,
+      fleet.budget.total,
+      fleet.spend || [],
+      undefined,
+      undefined,
+      {
+        currency,
+        model,
+        adjustments: adjustmentsFor(fleet.budget.fleetId),
+        budgetHistory: await budgetHistoryFor(fleet.budget.fleetId),
+      }
     );
 
     // Get sub-fleet forecasts
     const subFleetForecasts: ForecastResult[] = [];
-    if (mockData.subFleets) {
-      for (const subFleet of mockData.subFleets) {
+    if (fleet.subFleets) {
+      for (const subFleet of fleet.subFleets) {
         const subFleetForecast = calculateForecast(
           subFleet.fleetId,
           subFleet.fleetName,
           subFleet.budget,
-          subFleet.spend.map(s => ({ ...s, fleetId: subFleet.fleetId }))
+          subFleet.spend.map(s => ({ ...s, fleetId: subFleet.fleetId })),
+          undefined,
+          undefined,
+          {
+            currency: subFleet.currency ?? currency,
+            model,
+            adjustments: adjustmentsFor(subFleet.fleetId),
+            budgetHistory: await budgetHistoryFor(subFleet.fleetId),
+          }
         );
         subFleetForecasts.push(subFleetForecast);
       }
     }
 
-    // Aggregate all fleet data
-    const aggregatedForecast = aggregateFleetData(mainFleetForecast, subFleetForecasts);
-
-    return aggregatedForecast;
+    // Roll the sub-fleets up into the fleet, then convert to the reporting currency if one is set
+    const forecast = rollupFleetForecast(
+      { ...mainFleetForecast, subFleets: subFleetForecasts },
+      getRollupMode,
+      getFiscalCalendar(),
+      undefined,
+      fxRates
+    );
+    const reportingCurrency = options.currency ?? getReportingCurrency();
+    return reportingCurrency ? convertForecastResult(forecast, reportingCurrency, fxRates) : forecast;
   } catch (error) {
     const apiError: ApiError = {
-      message: error instanceof Error ? error.message : 'Failed to generate fleet forecast',
-      code: 'FORECAST_ERROR',
+      message: error instanceof Error ? error.message : (error as ApiError)?.message ?? 'Failed to generate fleet forecast',
+      code: (error as ApiError)?.code ?? 'FORECAST_ERROR',
     };
     throw apiError;
   }
@@ -219,11 +172,8 @@ export async function getFleetForecast(fleetId: string): Promise<ForecastResult>
  */
 export async function checkCerebrusHealth(): Promise<boolean> {
   try {
-    // TODO: Replace with actual API health check
-    // const response = await fetch(`${CEREBUS_BASE_URL}/health`);
-    // return response.ok;
-    return true; // Mock: always healthy
-  } catch (error) {
+    return await getFleetDataSource().checkHealth();
+  } catch {
     return false;
   }
 }
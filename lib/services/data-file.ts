@@ -0,0 +1,38 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { z } from 'zod';
+
+/**
+ * Local JSON Stores
+ * Reads the files in data/ (scenarios, forecast adjustments, budget revisions) against a zod schema.
+ * A malformed file is reported rather than loaded, so the next save never overwrites a bad hand edit.
+ */
+
+/**
+ * Read and validate a store, or null when it does not exist yet
+ * Throws when the file is not JSON or does not match the schema
+ */
+export async function readDataFile<T>(file: string, schema: z.ZodType<T>): Promise<T | null> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const name = path.relative(process.cwd(), file);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid ${name}: not JSON (${error instanceof Error ? error.message : error}) - fix or remove the file`);
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${name}: ${issues.join('; ')} - fix or remove the file`);
+  }
+  return result.data;
+}
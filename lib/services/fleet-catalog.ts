@@ -0,0 +1,75 @@
+import type { RollupMode } from '../types';
+import { FLEET_HIERARCHY, getChildFleets, type FleetConfig } from '../config/fleet-hierarchy';
+import { findLatestFleetError, findLatestFleetReport, listReportDates } from './report-forecast';
+import { getFleetForecast } from './fleet-forecast';
+import { isReportValidationError, type InvalidReport } from './report-schema';
+
+/**
+ * Fleet Catalog
+ * The configured fleet hierarchy as a tree, each fleet annotated with its latest scraped report
+ * and last failed scrape so other tools (and the dashboard's fleet selector) can see what exists.
+ */
+
+export interface FleetCatalogError {
+  reportDate: string;
+  code?: string; // ScraperErrorCode, e.g. NAVIGATION_TIMEOUT
+  message: string;
+}
+
+export interface FleetCatalogNode {
+  id: string;
+  name: string;
+  type: FleetConfig['type'];
+  parentId?: string;
+  rollupMode?: RollupMode;
+  budget: string | null; // Configured budget label, e.g. "$2.36M"
+  latestReportDate: string | null; // Newest successful report (YYYY-MM-DD); null before the first scrape
+  status: 'over' | 'under' | null; // isOverBudget of the /api/fleet forecast (default model) for that report
+  lastError: FleetCatalogError | null; // Newest failed scrape, which may predate the latest report
+  invalidReports?: InvalidReport[]; // Malformed report files of this fleet, skipped for the fields above
+  children: FleetCatalogNode[];
+}
+
+/**
+ * Top-level fleets (parents and independents) with their children nested below them
+ */
+export async function getFleetCatalog(): Promise<FleetCatalogNode[]> {
+  const reportDates = await listReportDates();
+
+  const buildNode = async (fleet: FleetConfig): Promise<FleetCatalogNode> => {
+    // A malformed file only affects its own fleet; older valid reports stand in for it
+    const invalidReports: InvalidReport[] = [];
+    const latest = await findLatestFleetReport(fleet.id, reportDates, invalidReports);
+    const failure = await findLatestFleetError(fleet.id, reportDates, invalidReports);
+
+    // Same forecast the detail view shows (default model, adjustments, goal revisions, rollup)
+    let status: FleetCatalogNode['status'] = null;
+    if (latest) {
+      try {
+        const forecast = await getFleetForecast(fleet.id, { reportDate: latest.reportDate });
+        status = forecast?.isOverBudget ? 'over' : 'under';
+      } catch (error) {
+        if (!isReportValidationError(error)) throw error;
+        invalidReports.push({ file: error.file, issues: error.issues }); // e.g. a child's report in the snapshot
+      }
+    }
+
+    return {
+      id: fleet.id,
+      name: fleet.name,
+      type: fleet.type,
+      ...(fleet.parentId ? { parentId: fleet.parentId } : {}),
+      ...(fleet.rollupMode ? { rollupMode: fleet.rollupMode } : {}),
+      budget: fleet.budget ?? null,
+      latestReportDate: latest?.reportDate ?? null,
+      status,
+      lastError: failure
+        ? { reportDate: failure.reportDate, code: failure.error.errorCode, message: failure.error.error }
+        : null,
+      ...(invalidReports.length > 0 ? { invalidReports } : {}),
+      children: await Promise.all(getChildFleets(fleet.id).map(buildNode)),
+    };
+  };
+
+  return Promise.all(FLEET_HIERARCHY.filter(fleet => !fleet.parentId).map(buildNode));
+}
@@ -0,0 +1,62 @@
+import type { BudgetData, CerebrusApiResponse, SpendData } from '../types';
+import { getDataSourceConfig, type DataSourceConfig, type FleetDataSourceKind } from '../config/data-source';
+import { getFiscalYear } from '../utils/date-utils';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { createMockDataSource } from './mock-data-source';
+import { createHttpDataSource } from './http-data-source';
+import { createScraperDataSource } from './scraper-data-source';
+
+/**
+ * Fleet Data Source
+ * One interface over the places fleet budget and spend can come from:
+ * the Puppeteer scraper, the Cerebus HTTP JSON API, or generated mock data.
+ * The source is chosen by configuration (FLEET_DATA_SOURCE), never by the caller.
+ */
+
+export interface FleetDataSource {
+  readonly kind: FleetDataSourceKind;
+
+  /** Budget, spend and sub-fleets of one fleet, shaped like the Cerebus API response */
+  getFleet(fleetId: string): Promise<CerebrusApiResponse>;
+
+  /** True when the source can currently serve data */
+  checkHealth(): Promise<boolean>;
+}
+
+/**
+ * Create the data source configured for this deployment
+ */
+export function getFleetDataSource(config: DataSourceConfig = getDataSourceConfig()): FleetDataSource {
+  switch (config.kind) {
+    case 'scraper':
+      return createScraperDataSource(config.scraper);
+    case 'http':
+      return createHttpDataSource(config.http);
+    case 'mock':
+      return createMockDataSource();
+  }
+}
+
+/**
+ * Budget part of a fleet response
+ */
+export function toBudgetData(response: CerebrusApiResponse, fleetId: string): BudgetData {
+  if (!response.budget) {
+    throw new Error(`No budget data found for fleet ${fleetId}`);
+  }
+
+  return {
+    fleetId: response.budget.fleetId,
+    fleetName: response.budget.fleetName,
+    budget: response.budget.total,
+    fiscalYear: getFiscalYear(),
+    currency: response.budget.currency ?? DEFAULT_CURRENCY,
+  };
+}
+
+/**
+ * Spend part of a fleet response (empty when the fleet has no spend yet)
+ */
+export function toSpendData(response: CerebrusApiResponse): SpendData[] {
+  return response.spend || [];
+}
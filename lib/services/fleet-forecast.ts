@@ -0,0 +1,55 @@
+import type { ForecastModelId, ForecastResult } from '../types';
+import { getRollupMode } from '../config/fleet-hierarchy';
+import { rollupFleetForecast } from './forecast-calculator';
+import { getDefaultForecastModel } from './forecast-models';
+import { loadForecastAdjustments } from './forecast-adjustments';
+import { getFleetBudgetHistory, loadBudgetRevisions } from './budget-history';
+import { loadFxRates } from './fx-rates';
+import { buildReportForecastTree, findFleetSnapshot, type SnapshotSelection } from './report-forecast';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+
+/**
+ * Fleet Forecast
+ * The forecast /api/fleet returns: a fleet's report snapshot re-projected with the chosen model plus
+ * its recorded adjustments and goal revisions, rolled up from its children's reports in the same snapshot.
+ * Anything that summarizes a fleet (e.g. the catalog's status) reads it from here so it never disagrees.
+ */
+
+export interface FleetForecastOptions extends SnapshotSelection {
+  model?: ForecastModelId; // Default FORECAST_MODEL or run-rate
+}
+
+/**
+ * Forecast for a fleet in the selected snapshot, or null when it has no report there
+ * Configured children without a report in the snapshot are listed in missingSubFleetIds
+ */
+export async function getFleetForecast(fleetId: string, options: FleetForecastOptions = {}): Promise<ForecastResult | null> {
+  const latest = await findFleetSnapshot(fleetId, options);
+  if (!latest) return null;
+
+  const model = options.model ?? getDefaultForecastModel();
+  const adjustments = await loadForecastAdjustments();
+  const manualRevisions = await loadBudgetRevisions();
+
+  const { forecast: tree, missingFleetIds } = await buildReportForecastTree(
+    latest,
+    async report => ({
+      model,
+      adjustments: adjustments.filter(adjustment => adjustment.fleetId === report.fleetId),
+      budgetHistory: await getFleetBudgetHistory(
+        report.fleetId,
+        report.fiscalYear,
+        latest.reportDate,
+        { reportDates: latest.reportDates, manualRevisions }
+      ),
+    }),
+    latest.reportDates
+  );
+
+  return {
+    ...rollupFleetForecast(tree, getRollupMode, getFiscalCalendar(), undefined, await loadFxRates()),
+    reportDate: latest.reportDate,
+    scrapedAt: latest.report.scrapedAt,
+    ...(missingFleetIds.length > 0 && { missingSubFleetIds: missingFleetIds }),
+  };
+}
@@ -0,0 +1,155 @@
+import type { FleetConfig } from '../config/fleet-hierarchy';
+import type { ScrapedFleetHierarchy } from './cerberus-scraper';
+
+/**
+ * Fleet Hierarchy Discovery
+ * Turns crawled Cerberus parent/child links into a proposed FLEET_HIERARCHY
+ * and diffs it against the hand-maintained config.
+ */
+
+export interface ReparentedFleet {
+  id: string;
+  name: string;
+  fromParentId?: string;
+  toParentId?: string;
+}
+
+export interface HierarchyDiff {
+  added: FleetConfig[];
+  removed: FleetConfig[];
+  reparented: ReparentedFleet[];
+  renamed: Array<{ id: string; from: string; to: string }>;
+}
+
+/**
+ * Build the proposed hierarchy from crawled fleets
+ * Children are listed right after their parent (depth first, in discovery order);
+ * budget strings and rollup modes are carried over from the current config since discovery does not read them
+ */
+export function buildProposedHierarchy(discovered: ScrapedFleetHierarchy[], current: FleetConfig[]): FleetConfig[] {
+  const byId = new Map(discovered.map(fleet => [fleet.fleetId, fleet]));
+
+  // A parent link only counts if the parent was crawled too; sub-fleet lists fill gaps
+  const parentOf = new Map<string, string>();
+  for (const fleet of discovered) {
+    if (fleet.parentFleetId && byId.has(fleet.parentFleetId)) {
+      parentOf.set(fleet.fleetId, fleet.parentFleetId);
+    }
+  }
+  for (const fleet of discovered) {
+    for (const childId of fleet.subFleets) {
+      if (byId.has(childId) && !parentOf.has(childId)) {
+        parentOf.set(childId, fleet.fleetId);
+      }
+    }
+  }
+
+  const childrenOf = (id: string) => discovered.filter(fleet => parentOf.get(fleet.fleetId) === id);
+  const proposed: FleetConfig[] = [];
+  const visited = new Set<string>();
+
+  const add = (fleet: ScrapedFleetHierarchy) => {
+    if (visited.has(fleet.fleetId)) return;
+    visited.add(fleet.fleetId);
+
+    const parentId = parentOf.get(fleet.fleetId);
+    const hasChildren = childrenOf(fleet.fleetId).length > 0;
+    const existing = current.find(config => config.id === fleet.fleetId);
+    const budget = existing?.budget;
+    const rollupMode = hasChildren ? existing?.rollupMode : undefined;
+
+    proposed.push({
+      id: fleet.fleetId,
+      name: fleet.fleetName,
+      type: parentId ? 'child' : hasChildren ? 'parent' : 'independent',
+      ...(parentId ? { parentId } : {}),
+      ...(budget ? { budget } : {}),
+      ...(rollupMode ? { rollupMode } : {}),
+    });
+
+    childrenOf(fleet.fleetId).forEach(add);
+  };
+
+  discovered.filter(fleet => !parentOf.has(fleet.fleetId)).forEach(add);
+  // Cycles (should not happen) would leave fleets unvisited - keep them rather than drop them
+  discovered.forEach(add);
+
+  return proposed;
+}
+
+/**
+ * Compare the current config with a proposed hierarchy
+ */
+export function diffHierarchy(current: FleetConfig[], proposed: FleetConfig[]): HierarchyDiff {
+  const currentById = new Map(current.map(fleet => [fleet.id, fleet]));
+  const proposedById = new Map(proposed.map(fleet => [fleet.id, fleet]));
+
+  const diff: HierarchyDiff = { added: [], removed: [], reparented: [], renamed: [] };
+
+  for (const fleet of proposed) {
+    const existing = currentById.get(fleet.id);
+    if (!existing) {
+      diff.added.push(fleet);
+      continue;
+    }
+    if (existing.parentId !== fleet.parentId) {
+      diff.reparented.push({ id: fleet.id, name: fleet.name, fromParentId: existing.parentId, toParentId: fleet.parentId });
+    }
+    if (existing.name !== fleet.name) {
+      diff.renamed.push({ id: fleet.id, from: existing.name, to: fleet.name });
+    }
+  }
+
+  diff.removed = current.filter(fleet => !proposedById.has(fleet.id));
+  return diff;
+}
+
+export function hasHierarchyChanges(diff: HierarchyDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.reparented.length + diff.renamed.length > 0;
+}
+
+/**
+ * Human-readable diff, one line per change
+ */
+export function formatHierarchyDiff(diff: HierarchyDiff): string {
+  const lines: string[] = [];
+  const label = (id?: string) => id ?? '(top level)';
+
+  diff.added.forEach(fleet => lines.push(`+ ${fleet.id} ${fleet.name}${fleet.parentId ? ` (parent ${fleet.parentId})` : ''}`));
+  diff.removed.forEach(fleet => lines.push(`- ${fleet.id} ${fleet.name}`));
+  diff.reparented.forEach(fleet => lines.push(`~ ${fleet.id} ${fleet.name}: parent ${label(fleet.fromParentId)} -> ${label(fleet.toParentId)}`));
+  diff.renamed.forEach(fleet => lines.push(`~ ${fleet.id} renamed: "${fleet.from}" -> "${fleet.to}"`));
+
+  return lines.length > 0 ? lines.join('\n') : 'No changes';
+}
+
+/**
+ * Render the FLEET_HIERARCHY array literal in the style of lib/config/fleet-hierarchy.ts
+ */
+function renderHierarchyLiteral(fleets: FleetConfig[]): string {
+  const entries = fleets.map(fleet => {
+    const fields = [
+      `    id: '${fleet.id}'`,
+      `    name: '${fleet.name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`,
+      `    type: '${fleet.type}'`,
+      ...(fleet.parentId ? [`    parentId: '${fleet.parentId}'`] : []),
+      ...(fleet.budget ? [`    budget: '${fleet.budget}'`] : []),
+      ...(fleet.rollupMode ? [`    rollupMode: '${fleet.rollupMode}'`] : []),
+    ];
+    return `  {\n${fields.join(',\n')}\n  }`;
+  });
+
+  return `export const FLEET_HIERARCHY: FleetConfig[] = [\n${entries.join(',\n')}\n];`;
+}
+
+/**
+ * Replace the FLEET_HIERARCHY array in the config source, keeping everything else as is
+ */
+export function renderHierarchySource(currentSource: string, proposed: FleetConfig[]): string {
+  const pattern = /export const FLEET_HIERARCHY: FleetConfig\[\] = \[[\s\S]*?\n\];/;
+  if (!pattern.test(currentSource)) {
+    throw new Error('FLEET_HIERARCHY array not found in fleet-hierarchy.ts');
+  }
+  // Function replacement: budget strings contain "$" which would be read as a group reference
+  return currentSource.replace(pattern, () => renderHierarchyLiteral(proposed));
+}
@@ -0,0 +1,85 @@
+import { parseISO } from 'date-fns';
+import { findLatestFleetError, findLatestFleetReport, listReportDates } from './report-forecast';
+import { DEFAULT_CURRENCY } from '../utils/currency';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+
+/**
+ * Fleet History
+ * Stitches a fleet's monthly report snapshots (reports/YYYY-MM-DD/) into one series per fiscal
+ * year, so the dashboard can show how the goal and the projection moved from run to run.
+ */
+
+export type FleetHistoryPoint =
+  | {
+    reportDate: string;
+    success: true;
+    scrapedAt: string;
+    monthsElapsed: number;
+    imrGoal: number;
+    ytdSpend: number;
+    projectedEOY: number; // Run-rate projection recorded by the scraper
+    variance: number; // projectedEOY - imrGoal (positive = over budget, as in /api/fleet)
+    variancePercentage: number;
+  }
+  | {
+    reportDate: string;
+    success: false; // The run failed for this fleet (fleet-<id>-ERROR.json)
+    errorCode?: string;
+    error: string;
+  };
+
+export interface FleetHistory {
+  fleetId: string;
+  fleetName: string | null; // null when every run of the year failed
+  fiscalYear: number;
+  currency: string;
+  points: FleetHistoryPoint[]; // Oldest first
+}
+
+/**
+ * Every snapshot of a fleet in one fiscal year (default: the fiscal year of its latest report)
+ * Returns null when the fleet has no report or failure at all
+ */
+export async function getFleetHistory(fleetId: string, fiscalYear?: number): Promise<FleetHistory | null> {
+  const calendar = getFiscalCalendar();
+  const reportDates = await listReportDates();
+  const latest = await findLatestFleetReport(fleetId, reportDates);
+  const year = fiscalYear ?? latest?.report.fiscalYear ?? calendar.getReportingPeriod().fiscalYear;
+
+  let fleetName: string | null = null;
+  let currency = DEFAULT_CURRENCY;
+  const points: FleetHistoryPoint[] = [];
+
+  for (const reportDate of [...reportDates].sort()) {
+    const snapshot = await findLatestFleetReport(fleetId, [reportDate]);
+    if (snapshot) {
+      const { report } = snapshot;
+      if (report.fiscalYear !== year) continue;
+
+      fleetName = report.fleetName;
+      currency = report.currency;
+      const variance = report.projectedEOY - report.imrGoal;
+      points.push({
+        reportDate,
+        success: true,
+        scrapedAt: report.scrapedAt,
+        monthsElapsed: report.monthsElapsed,
+        imrGoal: report.imrGoal,
+        ytdSpend: report.ytdSpend,
+        projectedEOY: report.projectedEOY,
+        variance,
+        variancePercentage: report.imrGoal > 0 ? (variance / report.imrGoal) * 100 : 0,
+      });
+      continue;
+    }
+
+    // Failed runs record no fiscal year - it is the one the run reported on
+    const failure = await findLatestFleetError(fleetId, [reportDate]);
+    if (failure && calendar.getReportingPeriod(parseISO(reportDate)).fiscalYear === year) {
+      points.push({ reportDate, success: false, errorCode: failure.error.errorCode, error: failure.error.error });
+    }
+  }
+
+  if (!latest && points.length === 0) return null;
+  return { fleetId, fleetName, fiscalYear: year, currency, points };
+}
@@ -0,0 +1,85 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { isValid, parseISO } from 'date-fns';
+import { z } from 'zod';
+import type { ForecastAdjustment } from '../types';
+import { readDataFile } from './data-file';
+
+/**
+ * Forecast Adjustments Store
+ * Known future changes per fleet (one-time purchases, run-rate changes) kept in a local JSON file
+ * and layered onto the model forecast by calculateForecast.
+ */
+
+export const ADJUSTMENTS_FILE = path.join(process.cwd(), 'data', 'forecast-adjustments.json');
+
+const ADJUSTMENT_TYPES: ForecastAdjustment['type'][] = ['one-time', 'run-rate'];
+
+const adjustmentsSchema = z.array(z.object({
+  id: z.string().min(1),
+  fleetId: z.string().min(1),
+  type: z.enum(ADJUSTMENT_TYPES as [ForecastAdjustment['type'], ...ForecastAdjustment['type'][]]),
+  date: z.iso.date(),
+  amount: z.number(),
+  description: z.string(),
+}));
+
+/**
+ * Check a new adjustment, returning the problems found (empty when valid)
+ */
+export function validateForecastAdjustment(adjustment: Partial<ForecastAdjustment>): string[] {
+  const problems: string[] = [];
+
+  if (!adjustment.fleetId) problems.push('fleetId is required');
+  if (!adjustment.type || !ADJUSTMENT_TYPES.includes(adjustment.type)) {
+    problems.push(`type must be one of ${ADJUSTMENT_TYPES.join(', ')}`);
+  }
+  if (!adjustment.date || !/^\d{4}-\d{2}-\d{2}$/.test(adjustment.date) || !isValid(parseISO(adjustment.date))) {
+    problems.push('date must be YYYY-MM-DD');
+  }
+  if (typeof adjustment.amount !== 'number' || !Number.isFinite(adjustment.amount)) {
+    problems.push('amount must be a number');
+  }
+  if (!adjustment.description?.trim()) problems.push('description is required');
+
+  return problems;
+}
+
+/**
+ * All stored adjustments, or one fleet's (empty when the store does not exist yet)
+ * Throws when the file is malformed, so adding or removing never overwrites it
+ */
+export async function loadForecastAdjustments(fleetId?: string): Promise<ForecastAdjustment[]> {
+  const adjustments = (await readDataFile(ADJUSTMENTS_FILE, adjustmentsSchema)) ?? [];
+  return fleetId ? adjustments.filter(adjustment => adjustment.fleetId === fleetId) : adjustments;
+}
+
+async function saveForecastAdjustments(adjustments: ForecastAdjustment[]): Promise<void> {
+  await fs.mkdir(path.dirname(ADJUSTMENTS_FILE), { recursive: true });
+  const sorted = [...adjustments].sort((a, b) => a.fleetId.localeCompare(b.fleetId) || a.date.localeCompare(b.date));
+  await fs.writeFile(ADJUSTMENTS_FILE, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+export async function addForecastAdjustment(adjustment: Omit<ForecastAdjustment, 'id'>): Promise<ForecastAdjustment> {
+  const problems = validateForecastAdjustment(adjustment);
+  if (problems.length > 0) {
+    throw new Error(`Invalid forecast adjustment: ${problems.join('; ')}`);
+  }
+
+  const created: ForecastAdjustment = { id: randomUUID(), ...adjustment, description: adjustment.description.trim() };
+  await saveForecastAdjustments([...(await loadForecastAdjustments()), created]);
+  return created;
+}
+
+/**
+ * Remove an adjustment by id, returning false when it does not exist
+ */
+export async function removeForecastAdjustment(id: string): Promise<boolean> {
+  const adjustments = await loadForecastAdjustments();
+  const remaining = adjustments.filter(adjustment => adjustment.id !== id);
+  if (remaining.length === adjustments.length) return false;
+
+  await saveForecastAdjustments(remaining);
+  return true;
+}
@@ -0,0 +1,122 @@
+import type { ForecastModelId, SpendData } from '../types';
+import { calculateMonthlyBurnRates, forecastWithModel } from './forecast-calculator';
+import { FORECAST_MODELS } from './forecast-models';
+import { listReportDates, listReportedFleetIds, loadFleetReportHistory, readFiscalYearSpend } from './report-forecast';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+
+/**
+ * Forecast Backtesting
+ * Replays every forecast model as of each archived report date (using only what was known then)
+ * and scores the projection against the actual YTD spend of every later report in the same fiscal year.
+ * Adjustments and scenarios are left out - this measures the models alone.
+ */
+
+export interface BacktestSample {
+  fleetId: string;
+  modelId: ForecastModelId;
+  usedModelId: ForecastModelId; // Differs when the model lacked data and fell back to the run rate
+  asOfReportDate: string;
+  actualReportDate: string;
+  fiscalYear: number;
+  horizonMonths: number; // Months between the forecast and the actual
+  forecastSpend: number; // Projected cumulative spend at the actual's period end
+  actualSpend: number;
+  error: number; // (forecast - actual) / actual
+}
+
+export interface BacktestMetrics {
+  fleetId: string | null; // null = all fleets
+  modelId: ForecastModelId;
+  samples: number;
+  mape: number; // Mean absolute percentage error, %
+  bias: number; // Mean signed percentage error, % (positive = over-forecast)
+}
+
+export interface BacktestResult {
+  samples: BacktestSample[];
+  byFleet: BacktestMetrics[];
+  byModel: BacktestMetrics[];
+  bestModelId: ForecastModelId | null; // Lowest overall MAPE
+}
+
+export interface BacktestOptions {
+  fleetIds?: string[]; // Defaults to every fleet with at least one report
+  modelIds?: ForecastModelId[]; // Defaults to every registered model
+}
+
+function summarize(fleetId: string | null, modelId: ForecastModelId, samples: BacktestSample[]): BacktestMetrics {
+  const count = samples.length;
+  return {
+    fleetId,
+    modelId,
+    samples: count,
+    mape: count > 0 ? samples.reduce((sum, sample) => sum + Math.abs(sample.error), 0) / count * 100 : 0,
+    bias: count > 0 ? samples.reduce((sum, sample) => sum + sample.error, 0) / count * 100 : 0,
+  };
+}
+
+/**
+ * Backtest the forecast models against the archived reports
+ */
+export async function runBacktest(options: BacktestOptions = {}): Promise<BacktestResult> {
+  const calendar = getFiscalCalendar();
+  const reportDates = await listReportDates();
+  const fleetIds = options.fleetIds ?? await listReportedFleetIds(reportDates);
+  const modelIds = options.modelIds ?? (Object.keys(FORECAST_MODELS) as ForecastModelId[]);
+  const samples: BacktestSample[] = [];
+
+  for (const fleetId of fleetIds) {
+    const history = await loadFleetReportHistory(fleetId, reportDates);
+
+    for (const [i, asOf] of history.entries()) {
+      const { report } = asOf;
+      const periodEnd = calendar.getPeriodEnd(report.fiscalYear, report.monthsElapsed);
+      const spendData: SpendData[] = report.spendHistory.map(row => ({ fleetId, date: row.date, amount: row.amount }));
+      const monthlyBurnRates = calculateMonthlyBurnRates(spendData, periodEnd, calendar);
+      // Only reports that existed on the as-of date may feed the seasonal model
+      const knownDates = reportDates.filter(date => date <= asOf.reportDate);
+      const priorYearSpend = modelIds.includes('seasonal')
+        ? await readFiscalYearSpend(knownDates, fleetId, report.fiscalYear - 1)
+        : [];
+
+      const later = history.slice(i + 1).filter(actual =>
+        actual.report.fiscalYear === report.fiscalYear && actual.report.monthsElapsed > report.monthsElapsed
+      );
+      if (later.length === 0) continue;
+
+      for (const modelId of modelIds) {
+        const projection = forecastWithModel(report.ytdSpend, monthlyBurnRates, periodEnd, calendar, modelId, priorYearSpend);
+
+        later.forEach((actual) => {
+          const horizonMonths = actual.report.monthsElapsed - report.monthsElapsed;
+          const forecastSpend = report.ytdSpend +
+            projection.projectedMonthlySpend.slice(0, horizonMonths).reduce((sum, amount) => sum + amount, 0);
+          if (actual.report.ytdSpend <= 0) return;
+
+          samples.push({
+            fleetId,
+            modelId,
+            usedModelId: projection.modelId,
+            asOfReportDate: asOf.reportDate,
+            actualReportDate: actual.reportDate,
+            fiscalYear: report.fiscalYear,
+            horizonMonths,
+            forecastSpend,
+            actualSpend: actual.report.ytdSpend,
+            error: (forecastSpend - actual.report.ytdSpend) / actual.report.ytdSpend,
+          });
+        });
+      }
+    }
+  }
+
+  const byFleet = fleetIds.flatMap(fleetId => modelIds.map(modelId =>
+    summarize(fleetId, modelId, samples.filter(sample => sample.fleetId === fleetId && sample.modelId === modelId))
+  )).filter(metrics => metrics.samples > 0);
+  const byModel = modelIds
+    .map(modelId => summarize(null, modelId, samples.filter(sample => sample.modelId === modelId)))
+    .filter(metrics => metrics.samples > 0);
+  const best = [...byModel].sort((a, b) => a.mape - b.mape)[0];
+
+  return { samples, byFleet, byModel, bestModelId: best?.modelId ?? null };
+}
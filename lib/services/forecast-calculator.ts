@@ -1,15 +1,46 @@
-import { getDaysInMonth, parseISO, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
-import type { SpendData, MonthlyBurnRate, ForecastResult } from '../types';
+import { addDays, differenceInCalendarDays, getDaysInMonth, isAfter, max, parseISO, endOfMonth, startOfDay } from 'date-fns';
+import type {
+  SpendData,
+  MonthlyBurnRate,
+  ForecastResult,
+  ForecastModelId,
+  RollupMode,
+  BudgetPacing,
+  ForecastAdjustment,
+  AppliedForecastAdjustment,
+  ScenarioChange,
+  BudgetRevision,
+  FxRates,
+  RollupCheck,
+  RollupTotals,
+} from '../types';
+import { formatMonth, getMonthKey } from '../utils/date-utils';
+import { getFiscalCalendar, type FiscalCalendar } from '../utils/fiscal-calendar';
+import { convertForecastResult, DEFAULT_CURRENCY } from '../utils/currency';
 import {
-  getFiscalYear,
-  getFiscalYearStart,
-  getFiscalYearEnd,
-  getDaysInFiscalYear,
-  getDaysElapsed,
-  getMonthsInFiscalYearToDate,
-  formatMonth,
-  getMonthKey,
-} from '../utils/date-utils';
+  DEFAULT_FORECAST_MODEL,
+  getFiscalYearMonthlySpend,
+  getRemainingMonthDays,
+  runForecastModel,
+  type ForecastModelResult,
+} from './forecast-models';
+import { calculateForecastConfidence } from './forecast-confidence';
+import { detectSpendAnomalies } from './spend-anomalies';
+import { getRollupMode } from '../config/fleet-hierarchy';
+
+// Children may exceed their parent by this share of the parent's figure before the rollup check flags it
+const ROLLUP_CHECK_TOLERANCE = 0.005;
+
+export interface ForecastOptions {
+  currency?: string; // Currency of the budget and spend, defaults to USD
+  model?: ForecastModelId;
+  priorYearSpend?: SpendData[]; // Seasonal model input
+  adjustments?: ForecastAdjustment[]; // Known future changes, see applyForecastAdjustments
+  scenario?: ScenarioChange; // What-if change to this fleet's projection, see applyScenarioChange
+  partsScenarioImpact?: number; // Rolled-up parents: EOY change from scenario changes on the children and unallocated line
+  budgetHistory?: BudgetRevision[]; // Goal revisions this fiscal year, oldest first
+  originalBudget?: number; // Defaults to the first budgetHistory entry (rolled-up parents pass their sum)
+}
 
 /**
  * Requirement 3: Calculate Year-to-Date Spend
@@ -29,15 +60,15 @@ export function calculateYTDSpend(spendData: SpendData[]): number {
  */
 export function calculateMonthlyBurnRates(
   spendData: SpendData[],
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar()
 ): MonthlyBurnRate[] {
   if (!spendData || spendData.length === 0) {
     return [];
   }
 
-  const fiscalYear = getFiscalYear(currentDate);
-  const months = getMonthsInFiscalYearToDate(currentDate, fiscalYear);
-  const monthlyBurnRates: MonthlyBurnRate[] = [];
+  const months = calendar.getMonthsInFiscalYearToDate(currentDate);
+  const monthlyBurnRates: Array<Omit<MonthlyBurnRate, 'anomalyScore' | 'isAnomaly'>> = [];
 
   // Group spend by month
   const spendByMonth = new Map<string, number>();
@@ -76,7 +107,7 @@ export function calculateMonthlyBurnRates(
     });
   });
 
-  return monthlyBurnRates;
+  return detectSpendAnomalies(monthlyBurnRates);
 }
 
 /**
@@ -84,10 +115,10 @@ export function calculateMonthlyBurnRates(
  */
 export function calculateAverageDailyBurnRate(
   ytdSpend: number,
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar()
 ): number {
-  const fiscalYear = getFiscalYear(currentDate);
-  const daysElapsed = getDaysElapsed(currentDate, fiscalYear);
+  const daysElapsed = calendar.getDaysElapsed(currentDate);
 
   if (daysElapsed === 0) {
     return 0;
@@ -103,19 +134,45 @@ export function calculateAverageDailyBurnRate(
 export function forecastEOYSpend(
   ytdSpend: number,
   burnRate: number,
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar()
 ): number {
   // If burn rate is zero, return YTD spend as the EOY forecast
   if (burnRate === 0) {
     return ytdSpend;
   }
 
-  const fiscalYear = getFiscalYear(currentDate);
-  const totalDaysInYear = getDaysInFiscalYear(fiscalYear);
+  const totalDaysInYear = calendar.getDaysInFiscalYear(calendar.getFiscalYear(currentDate));
 
   return burnRate * totalDaysInYear;
 }
 
+/**
+ * Forecast EOY spend with a model from the forecast model registry
+ * Prior-year spend is only used by the seasonal model
+ */
+export function forecastWithModel(
+  ytdSpend: number,
+  monthlyBurnRates: MonthlyBurnRate[],
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar(),
+  modelId: ForecastModelId = DEFAULT_FORECAST_MODEL,
+  priorYearSpend: SpendData[] = []
+): ForecastModelResult {
+  const fiscalYear = calendar.getFiscalYear(currentDate);
+
+  return runForecastModel(modelId, {
+    ytdSpend,
+    daysElapsed: calendar.getDaysElapsed(currentDate, fiscalYear),
+    monthlyBurnRates,
+    remainingMonthDays: getRemainingMonthDays(currentDate, calendar),
+    monthsInYear: calendar.monthsInYear,
+    priorYearMonthlySpend: priorYearSpend.length > 0
+      ? getFiscalYearMonthlySpend(priorYearSpend, fiscalYear - 1, calendar)
+      : undefined,
+  });
+}
+
 /**
  * Requirement 6: Compare Forecast Against Budget
  * Calculates variance between forecasted EOY spend and allocated budget
@@ -140,113 +197,371 @@ export function calculateBudgetVariance(
 }
 
 /**
- * Complete forecast calculation combining all requirements
+ * Apply a what-if change to the projected spend of the remaining fiscal months
+ * Months before `fromMonth` keep the model projection; a partial current month gets a pro-rated cap
  */
-export function calculateForecast(
+export function applyScenarioChange(
+  projectedMonthlySpend: number[],
+  change: ScenarioChange,
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar()
+): number[] {
+  const months = calendar.getFiscalMonths(calendar.getFiscalYear(currentDate));
+  const remainingMonthDays = getRemainingMonthDays(currentDate, calendar);
+  const firstRemaining = months.length - projectedMonthlySpend.length;
+
+  return projectedMonthlySpend.map((amount, i) => {
+    const month = months[firstRemaining + i];
+    if (getMonthKey(month) < change.fromMonth) return amount;
+
+    const changed = amount * (change.multiplier ?? 1);
+    return change.monthlyCap === undefined
+      ? changed
+      : Math.min(changed, change.monthlyCap * (remainingMonthDays[i] / getDaysInMonth(month)));
+  });
+}
+
+/**
+ * Layer known future adjustments onto a baseline EOY forecast
+ * Only the part after the forecast date and within the fiscal year counts - earlier spend is already in the actuals
+ */
+export function applyForecastAdjustments(
+  baselineEOYSpend: number,
+  adjustments: ForecastAdjustment[],
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar()
+): { forecastedEOYSpend: number; adjustments: AppliedForecastAdjustment[] } {
+  const fiscalYear = calendar.getFiscalYear(currentDate);
+  const fiscalYearEnd = calendar.getFiscalYearEnd(fiscalYear);
+  const firstForecastDay = addDays(startOfDay(currentDate), 1);
+  // Monthly amount -> daily amount, using the fiscal year's average month length
+  const monthlyToDaily = calendar.monthsInYear / calendar.getDaysInFiscalYear(fiscalYear);
+
+  const applied = adjustments.map((adjustment) => {
+    const date = parseISO(adjustment.date);
+    let impact = 0;
+
+    if (adjustment.type === 'one-time') {
+      if (!isAfter(firstForecastDay, date) && !isAfter(date, fiscalYearEnd)) {
+        impact = adjustment.amount;
+      }
+    } else {
+      const days = differenceInCalendarDays(fiscalYearEnd, max([date, firstForecastDay])) + 1;
+      impact = days > 0 ? adjustment.amount * monthlyToDaily * days : 0;
+    }
+
+    return { ...adjustment, impact };
+  });
+
+  return {
+    forecastedEOYSpend: baselineEOYSpend + applied.reduce((sum, adjustment) => sum + adjustment.impact, 0),
+    adjustments: applied,
+  };
+}
+
+/**
+ * Budget pacing: how long the remaining budget lasts and how fast the fleet may still spend
+ */
+export function calculateBudgetPacing(
+  budget: number,
+  ytdSpend: number,
+  avgDailyBurnRate: number,
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar()
+): BudgetPacing {
+  const fiscalYear = calendar.getFiscalYear(currentDate);
+  const daysInFiscalYear = calendar.getDaysInFiscalYear(fiscalYear);
+  const daysElapsed = calendar.getDaysElapsed(currentDate, fiscalYear);
+  const daysRemainingInYear = Math.max(0, daysInFiscalYear - daysElapsed);
+  const remainingBudget = budget - ytdSpend;
+
+  let daysUntilExhausted: number | null = null;
+  if (remainingBudget <= 0) {
+    daysUntilExhausted = 0;
+  } else if (avgDailyBurnRate > 0) {
+    daysUntilExhausted = remainingBudget / avgDailyBurnRate;
+  }
+
+  const requiredDailyBurnRate = daysRemainingInYear > 0 ? Math.max(0, remainingBudget) / daysRemainingInYear : 0;
+
+  return {
+    remainingBudget,
+    daysRemainingInYear,
+    daysUntilExhausted,
+    exhaustionDate: daysUntilExhausted === null ? null : addDays(currentDate, Math.ceil(daysUntilExhausted)),
+    exhaustsBeforeYearEnd: daysUntilExhausted !== null && daysUntilExhausted < daysRemainingInYear,
+    requiredDailyBurnRate,
+    requiredMonthlyBurnRate: requiredDailyBurnRate * (daysInFiscalYear / calendar.monthsInYear),
+    percentBudgetUsed: budget > 0 ? (ytdSpend / budget) * 100 : 0,
+    percentYearElapsed: daysInFiscalYear > 0 ? (daysElapsed / daysInFiscalYear) * 100 : 0,
+  };
+}
+
+/**
+ * Forecast, variance and confidence for a fleet from its YTD spend and monthly series
+ * Shared by calculateForecast (raw spend rows) and the hierarchy rollup (summed series)
+ */
+export function buildForecastResult(
   fleetId: string,
   fleetName: string,
   budget: number,
-  spendData: SpendData[],
-  currentDate: Date = new Date()
+  ytdSpend: number,
+  monthlyBurnRates: MonthlyBurnRate[],
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar(),
+  options: ForecastOptions = {}
 ): ForecastResult {
-  const fiscalYear = getFiscalYear(currentDate);
-  const fiscalYearStart = getFiscalYearStart(fiscalYear);
-  const fiscalYearEnd = getFiscalYearEnd(fiscalYear);
-
-  // Requirement 3: Calculate YTD Spend
-  const ytdSpend = calculateYTDSpend(spendData);
-
-  // Requirement 4: Calculate Monthly Burn Rates
-  const monthlyBurnRates = calculateMonthlyBurnRates(spendData, currentDate);
+  const fiscalYear = calendar.getFiscalYear(currentDate);
 
   // Calculate average daily burn rate
-  const avgDailyBurnRate = calculateAverageDailyBurnRate(ytdSpend, currentDate);
+  const avgDailyBurnRate = calculateAverageDailyBurnRate(ytdSpend, currentDate, calendar);
+
+  // Requirement 5: Forecast EOY Spend (run-rate model = burn rate x days in fiscal year)
+  const projection = forecastWithModel(
+    ytdSpend,
+    monthlyBurnRates,
+    currentDate,
+    calendar,
+    options.model,
+    options.priorYearSpend
+  );
+  const { modelId, requestedModelId } = projection;
 
-  // Requirement 5: Forecast EOY Spend
-  const forecastedEOYSpend = forecastEOYSpend(ytdSpend, avgDailyBurnRate, currentDate);
+  // What-if runs: change this fleet's projection, or carry the scenario impact of a rolled-up parent's parts
+  const projectedMonthlySpend = options.scenario
+    ? applyScenarioChange(projection.projectedMonthlySpend, options.scenario, currentDate, calendar)
+    : projection.projectedMonthlySpend;
+  const isScenario = options.scenario !== undefined || options.partsScenarioImpact !== undefined;
+  const scenarioImpact = projectedMonthlySpend.reduce((sum, amount) => sum + amount, 0) -
+    projection.projectedMonthlySpend.reduce((sum, amount) => sum + amount, 0) +
+    (options.partsScenarioImpact ?? 0);
+  const baselineEOYSpend = projection.forecastedEOYSpend + scenarioImpact;
+  const { forecastedEOYSpend, adjustments } = applyForecastAdjustments(
+    baselineEOYSpend,
+    options.adjustments ?? [],
+    currentDate,
+    calendar
+  );
 
   // Requirement 6: Calculate Budget Variance
   const { variance, variancePercentage, isOverBudget } = calculateBudgetVariance(
     budget,
     forecastedEOYSpend
   );
+  // Variance against the goal the fiscal year started with, to explain swings after a revision
+  const budgetHistory = options.budgetHistory ?? [];
+  const originalBudget = options.originalBudget ?? budgetHistory[0]?.amount ?? budget;
+  const original = calculateBudgetVariance(originalBudget, forecastedEOYSpend);
+  const confidence = calculateForecastConfidence(budget, ytdSpend, forecastedEOYSpend, projectedMonthlySpend, monthlyBurnRates);
 
   return {
     fleetId,
     fleetName,
+    currency: options.currency ?? DEFAULT_CURRENCY,
     budget,
     ytdSpend,
     avgDailyBurnRate,
     monthlyBurnRates,
     forecastedEOYSpend,
+    baselineEOYSpend,
+    adjustments,
+    scenarioImpact: isScenario ? scenarioImpact : undefined,
+    forecastModel: modelId,
+    requestedForecastModel: requestedModelId !== modelId ? requestedModelId : undefined,
     variance,
     variancePercentage,
     isOverBudget,
-    fiscalYearStart,
-    fiscalYearEnd,
-    daysInFiscalYear: getDaysInFiscalYear(fiscalYear),
-    daysElapsed: getDaysElapsed(currentDate, fiscalYear),
+    originalBudget,
+    originalVariance: original.variance,
+    originalVariancePercentage: original.variancePercentage,
+    budgetHistory,
+    ...confidence,
+    pacing: calculateBudgetPacing(budget, ytdSpend, avgDailyBurnRate, currentDate, calendar),
+    forecastDate: currentDate,
+    fiscalYearStart: calendar.getFiscalYearStart(fiscalYear),
+    fiscalYearEnd: calendar.getFiscalYearEnd(fiscalYear),
+    daysInFiscalYear: calendar.getDaysInFiscalYear(fiscalYear),
+    daysElapsed: calendar.getDaysElapsed(currentDate, fiscalYear),
   };
 }
 
 /**
- * Requirement 7: Aggregate Fleet and Sub-Fleet Data
- * Combines data from a fleet and all its sub-fleets
+ * Complete forecast calculation combining all requirements
  */
-export function aggregateFleetData(
-  mainFleet: ForecastResult,
-  subFleets: ForecastResult[]
+export function calculateForecast(
+  fleetId: string,
+  fleetName: string,
+  budget: number,
+  spendData: SpendData[],
+  currentDate: Date = new Date(),
+  calendar: FiscalCalendar = getFiscalCalendar(),
+  options: ForecastOptions = {}
 ): ForecastResult {
-  if (!subFleets || subFleets.length === 0) {
-    return { ...mainFleet, subFleets: [] };
-  }
+  // Requirement 3: Calculate YTD Spend
+  const ytdSpend = calculateYTDSpend(spendData);
 
-  // Aggregate budget
-  const totalBudget = mainFleet.budget + subFleets.reduce((sum, sf) => sum + sf.budget, 0);
+  // Requirement 4: Calculate Monthly Burn Rates
+  const monthlyBurnRates = calculateMonthlyBurnRates(spendData, currentDate, calendar);
 
-  // Aggregate YTD spend
-  const totalYTDSpend = mainFleet.ytdSpend + subFleets.reduce((sum, sf) => sum + sf.ytdSpend, 0);
+  return buildForecastResult(fleetId, fleetName, budget, ytdSpend, monthlyBurnRates, currentDate, calendar, options);
+}
 
-  // Recalculate with aggregated data
-  const avgDailyBurnRate = calculateAverageDailyBurnRate(totalYTDSpend, new Date());
-  const forecastedEOYSpend = forecastEOYSpend(totalYTDSpend, avgDailyBurnRate, new Date());
-  const { variance, variancePercentage, isOverBudget } = calculateBudgetVariance(
-    totalBudget,
-    forecastedEOYSpend
-  );
+/**
+ * Add (weight 1) or subtract (weight -1) monthly series
+ * Daily burn is recomputed from the summed spend, never summed itself
+ */
+function combineMonthlyBurnRates(terms: Array<{ rates: MonthlyBurnRate[]; weight: 1 | -1 }>): MonthlyBurnRate[] {
+  const byMonth = new Map<string, Omit<MonthlyBurnRate, 'anomalyScore' | 'isAnomaly'>>();
 
-  // Aggregate monthly burn rates
-  const monthlyBurnRatesMap = new Map<string, MonthlyBurnRate>();
-  
-  [mainFleet, ...subFleets].forEach((fleet) => {
-    fleet.monthlyBurnRates.forEach((mbr) => {
-      const existing = monthlyBurnRatesMap.get(mbr.month);
-      if (existing) {
-        monthlyBurnRatesMap.set(mbr.month, {
-          ...existing,
-          totalSpend: existing.totalSpend + mbr.totalSpend,
-          dailyBurnRate: existing.dailyBurnRate + mbr.dailyBurnRate,
-        });
-      } else {
-        monthlyBurnRatesMap.set(mbr.month, { ...mbr });
-      }
+  terms.forEach(({ rates, weight }) => {
+    rates.forEach((mbr) => {
+      const existing = byMonth.get(mbr.month);
+      byMonth.set(mbr.month, {
+        month: mbr.month,
+        monthName: mbr.monthName,
+        totalSpend: (existing?.totalSpend ?? 0) + weight * mbr.totalSpend,
+        daysInMonth: Math.max(existing?.daysInMonth ?? 0, mbr.daysInMonth),
+        dailyBurnRate: 0,
+      });
     });
   });
 
-  const monthlyBurnRates = Array.from(monthlyBurnRatesMap.values()).sort((a, b) =>
-    a.month.localeCompare(b.month)
+  // Anomalies are re-scored on the combined series
+  return detectSpendAnomalies(Array.from(byMonth.values())
+    .map(mbr => ({ ...mbr, dailyBurnRate: mbr.daysInMonth > 0 ? mbr.totalSpend / mbr.daysInMonth : 0 }))
+    .sort((a, b) => a.month.localeCompare(b.month)));
+}
+
+/**
+ * Requirement 7: Roll up a fleet hierarchy of any depth
+ * `fleet` carries its own Cerberus figures and `subFleets` the children's (nested to any depth).
+ *   includes-children - the fleet's own figures already contain its children (Cerberus parent totals)
+ *   additive          - the fleet's own figures are only its direct spend; children are added on top
+ * Either way the part not attributed to a child is reported as the `unallocated` line.
+ * Children's adjustments count towards the parent total; the unallocated line keeps the parent's own.
+ * What-if runs pass getScenario: a change on the parent applies to its unallocated (own) spend, and
+ * the parent total carries the scenario impact of its children plus that unallocated line.
+ * Children billed in another currency are converted to the parent's with fxRates for the totals
+ * (and keep their own currency in subFleets).
+ */
+export function rollupFleetForecast(
+  fleet: ForecastResult,
+  getMode: (fleetId: string) => RollupMode = getRollupMode,
+  calendar: FiscalCalendar = getFiscalCalendar(),
+  getScenario?: (fleetId: string) => ScenarioChange | undefined,
+  fxRates: FxRates = { base: DEFAULT_CURRENCY, rates: {} }
+): ForecastResult {
+  const children = (fleet.subFleets ?? []).map(child => rollupFleetForecast(child, getMode, calendar, getScenario, fxRates));
+  if (children.length === 0) {
+    return { ...fleet, subFleets: [] };
+  }
+
+  const rollupMode = getMode(fleet.fleetId);
+  const model = fleet.requestedForecastModel ?? fleet.forecastModel;
+  const converted = children.map(child => convertForecastResult(child, fleet.currency, fxRates));
+  const sum = (value: (child: ForecastResult) => number) => converted.reduce((total, child) => total + value(child), 0);
+  const childRates = converted.map(child => ({ rates: child.monthlyBurnRates, weight: 1 as const }));
+  const scenario = getScenario?.(fleet.fleetId);
+
+  const totalBudget = rollupMode === 'additive' ? fleet.budget + sum(child => child.budget) : fleet.budget;
+  const totalOriginalBudget = rollupMode === 'additive'
+    ? fleet.originalBudget + sum(child => child.originalBudget)
+    : fleet.originalBudget;
+  const totalYTDSpend = rollupMode === 'additive' ? fleet.ytdSpend + sum(child => child.ytdSpend) : fleet.ytdSpend;
+  const totalMonthlyBurnRates = rollupMode === 'additive'
+    ? combineMonthlyBurnRates([{ rates: fleet.monthlyBurnRates, weight: 1 }, ...childRates])
+    : fleet.monthlyBurnRates;
+
+  // Parent minus the sum of its children
+  const unallocated = buildForecastResult(
+    `${fleet.fleetId}-unallocated`,
+    `Unallocated (${fleet.fleetName})`,
+    totalBudget - sum(child => child.budget),
+    totalYTDSpend - sum(child => child.ytdSpend),
+    combineMonthlyBurnRates([
+      { rates: totalMonthlyBurnRates, weight: 1 },
+      ...childRates.map(term => ({ ...term, weight: -1 as const })),
+    ]),
+    fleet.forecastDate,
+    calendar,
+    {
+      currency: fleet.currency,
+      model,
+      adjustments: fleet.adjustments,
+      scenario,
+      originalBudget: totalOriginalBudget - sum(child => child.originalBudget),
+    }
+  );
+
+  // The children already contain their own changes, so the parent's change only reaches the unallocated line
+  const total = buildForecastResult(
+    fleet.fleetId,
+    fleet.fleetName,
+    totalBudget,
+    totalYTDSpend,
+    totalMonthlyBurnRates,
+    fleet.forecastDate,
+    calendar,
+    {
+      currency: fleet.currency,
+      model,
+      adjustments: [...fleet.adjustments, ...converted.flatMap(child => child.adjustments)],
+      partsScenarioImpact: getScenario
+        ? sum(child => child.scenarioImpact ?? 0) + (unallocated.scenarioImpact ?? 0)
+        : undefined,
+      budgetHistory: fleet.budgetHistory,
+      originalBudget: totalOriginalBudget,
+    }
   );
 
+  const parentTotals: RollupTotals = {
+    budget: total.budget,
+    ytdSpend: total.ytdSpend,
+    forecastedEOYSpend: total.forecastedEOYSpend,
+  };
+  const childTotals: RollupTotals = {
+    budget: sum(child => child.budget),
+    ytdSpend: sum(child => child.ytdSpend),
+    forecastedEOYSpend: sum(child => child.forecastedEOYSpend),
+  };
+  // Scraped figures are rounded (e.g. "$812.9K"), so small excesses are ignored
+  const exceeds = (key: keyof RollupTotals) =>
+    childTotals[key] - parentTotals[key] > Math.max(1, Math.abs(parentTotals[key]) * ROLLUP_CHECK_TOLERANCE);
+  const rollupCheck: RollupCheck = {
+    parent: parentTotals,
+    children: childTotals,
+    difference: {
+      budget: parentTotals.budget - childTotals.budget,
+      ytdSpend: parentTotals.ytdSpend - childTotals.ytdSpend,
+      forecastedEOYSpend: parentTotals.forecastedEOYSpend - childTotals.forecastedEOYSpend,
+    },
+    childrenExceedParent: exceeds('budget') || exceeds('ytdSpend'),
+  };
+
   return {
-    ...mainFleet,
-    budget: totalBudget,
-    ytdSpend: totalYTDSpend,
-    avgDailyBurnRate,
-    monthlyBurnRates,
-    forecastedEOYSpend,
-    variance,
-    variancePercentage,
-    isOverBudget,
-    subFleets,
+    ...total,
+    rollupMode,
+    subFleets: children,
+    unallocated: rollupCheck.childrenExceedParent ? { ...unallocated, childrenExceedParent: true } : unallocated,
+    rollupCheck,
   };
 }
+
+/**
+ * Requirement 7: Aggregate Fleet and Sub-Fleet Data
+ * Combines data from a fleet and its sub-fleets (see rollupFleetForecast)
+ */
+export function aggregateFleetData(
+  mainFleet: ForecastResult,
+  subFleets: ForecastResult[],
+  rollupMode: RollupMode = getRollupMode(mainFleet.fleetId),
+  fxRates?: FxRates
+): ForecastResult {
+  return rollupFleetForecast(
+    { ...mainFleet, subFleets },
+    fleetId => (fleetId === mainFleet.fleetId ? rollupMode : getRollupMode(fleetId)),
+    undefined,
+    undefined,
+    fxRates
+  );
+}
@@ -0,0 +1,83 @@
+import type { BudgetStatus, ForecastBands, MonthlyBurnRate } from '../types';
+
+/**
+ * Forecast Confidence
+ * Uncertainty bands on EOY spend from month-to-month volatility of the daily burn rate.
+ * Each remaining month is treated as independent with the same relative volatility
+ * (coefficient of variation) as the months observed so far; the total is approximated
+ * as normal around the point forecast (P50).
+ */
+
+export interface ForecastConfidence {
+  forecastBands: ForecastBands;
+  overBudgetProbability: number; // 0-1
+  budgetStatus: BudgetStatus;
+}
+
+const Z_90 = 1.2816; // Standard normal quantile for P90 (and -P10)
+
+// Chance of going over above which a fleet still under budget is "at risk" (budget below P90)
+const AT_RISK_PROBABILITY = 0.1;
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 approximation of erf)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Coefficient of variation of the daily burn rate across months with data (0 with fewer than 2 months)
+ */
+export function calculateBurnRateVolatility(monthlyBurnRates: MonthlyBurnRate[]): number {
+  const rates = monthlyBurnRates.filter(month => month.daysInMonth > 0).map(month => month.dailyBurnRate);
+  if (rates.length < 2) return 0;
+
+  const mean = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+  if (mean <= 0) return 0;
+
+  const variance = rates.reduce((sum, rate) => sum + (rate - mean) ** 2, 0) / (rates.length - 1);
+  return Math.sqrt(variance) / mean;
+}
+
+/**
+ * 'over' whenever the point forecast exceeds the budget (same as isOverBudget), so the badge never
+ * contradicts the variance; otherwise the probability decides between 'at-risk' and 'under'
+ */
+export function getBudgetStatus(isOverBudget: boolean, overBudgetProbability: number): BudgetStatus {
+  if (isOverBudget) return 'over';
+  if (overBudgetProbability > AT_RISK_PROBABILITY) return 'at-risk';
+  return 'under';
+}
+
+/**
+ * P10/P50/P90 EOY spend and probability of exceeding the budget
+ * P10 never drops below YTD spend - money already spent is certain
+ */
+export function calculateForecastConfidence(
+  budget: number,
+  ytdSpend: number,
+  forecastedEOYSpend: number,
+  projectedMonthlySpend: number[],
+  monthlyBurnRates: MonthlyBurnRate[]
+): ForecastConfidence {
+  const volatility = calculateBurnRateVolatility(monthlyBurnRates);
+  const standardDeviation = volatility * Math.sqrt(projectedMonthlySpend.reduce((sum, amount) => sum + amount ** 2, 0));
+
+  const overBudgetProbability = standardDeviation > 0
+    ? 1 - normalCdf((budget - forecastedEOYSpend) / standardDeviation)
+    : forecastedEOYSpend > budget ? 1 : 0;
+
+  return {
+    forecastBands: {
+      p10: Math.max(ytdSpend, forecastedEOYSpend - Z_90 * standardDeviation),
+      p50: forecastedEOYSpend,
+      p90: forecastedEOYSpend + Z_90 * standardDeviation,
+    },
+    overBudgetProbability,
+    budgetStatus: getBudgetStatus(forecastedEOYSpend > budget, overBudgetProbability),
+  };
+}
@@ -0,0 +1,211 @@
+import { addMonths, differenceInDays, getDaysInMonth, isAfter, parseISO, startOfDay, startOfMonth } from 'date-fns';
+import type { ForecastModelId, MonthlyBurnRate, SpendData } from '../types';
+import { getMonthKey } from '../utils/date-utils';
+import type { FiscalCalendar } from '../utils/fiscal-calendar';
+
+/**
+ * Forecast Models
+ * Each model projects spend for the remaining fiscal months from the monthly series to date.
+ * EOY forecast = YTD spend + projected remaining spend.
+ */
+
+export interface ForecastModelInput {
+  ytdSpend: number;
+  daysElapsed: number;
+  monthlyBurnRates: MonthlyBurnRate[]; // Fiscal months to date, the last one may be partial
+  remainingMonthDays: number[]; // Days left in each remaining fiscal month (first may be partial)
+  monthsInYear: number;
+  priorYearMonthlySpend?: number[]; // Previous fiscal year's monthly totals, in fiscal order
+}
+
+export interface ForecastModel {
+  id: ForecastModelId;
+  name: string;
+  description: string;
+  /** Projected spend per remaining month, or null when the model lacks data */
+  projectRemaining(input: ForecastModelInput): number[] | null;
+}
+
+export interface ForecastModelResult {
+  modelId: ForecastModelId; // Model actually used (run-rate when the requested one lacked data)
+  requestedModelId: ForecastModelId;
+  projectedMonthlySpend: number[];
+  forecastedEOYSpend: number;
+}
+
+export const DEFAULT_FORECAST_MODEL: ForecastModelId = 'run-rate';
+const TRAILING_MONTHS = 3;
+const EWMA_ALPHA = 0.5; // Weight of the latest month
+
+// Daily burn rate held for every remaining day
+const projectDailyRate = (rate: number, input: ForecastModelInput) =>
+  input.remainingMonthDays.map(days => Math.max(0, rate) * days);
+
+// Months with at least one day of data
+const observedMonths = (input: ForecastModelInput) => input.monthlyBurnRates.filter(month => month.daysInMonth > 0);
+
+export const FORECAST_MODELS: Record<ForecastModelId, ForecastModel> = {
+  'run-rate': {
+    id: 'run-rate',
+    name: 'Run rate (full YTD)',
+    description: 'Average daily burn since the fiscal year start, held for the rest of the year',
+    projectRemaining(input) {
+      const rate = input.daysElapsed > 0 ? input.ytdSpend / input.daysElapsed : 0;
+      return projectDailyRate(rate, input);
+    },
+  },
+
+  trailing: {
+    id: 'trailing',
+    name: `Trailing ${TRAILING_MONTHS}-month run rate`,
+    description: `Average daily burn over the last ${TRAILING_MONTHS} months - follows recent ramps`,
+    projectRemaining(input) {
+      const months = observedMonths(input).slice(-TRAILING_MONTHS);
+      if (months.length === 0) return null;
+      const spend = months.reduce((sum, month) => sum + month.totalSpend, 0);
+      const days = months.reduce((sum, month) => sum + month.daysInMonth, 0);
+      return projectDailyRate(spend / days, input);
+    },
+  },
+
+  ewma: {
+    id: 'ewma',
+    name: 'Exponentially weighted',
+    description: `Daily burn averaged with weight ${EWMA_ALPHA} on the latest month, decaying for older months`,
+    projectRemaining(input) {
+      const months = observedMonths(input);
+      if (months.length === 0) return null;
+      const rate = months.slice(1).reduce(
+        (average, month) => EWMA_ALPHA * month.dailyBurnRate + (1 - EWMA_ALPHA) * average,
+        months[0].dailyBurnRate
+      );
+      return projectDailyRate(rate, input);
+    },
+  },
+
+  'linear-regression': {
+    id: 'linear-regression',
+    name: 'Linear trend',
+    description: 'Least-squares line through the monthly daily burn, extended to the remaining months',
+    projectRemaining(input) {
+      // x = fiscal month index, y = daily burn of that month
+      const points = input.monthlyBurnRates
+        .map((month, x) => ({ x, y: month.dailyBurnRate, days: month.daysInMonth }))
+        .filter(point => point.days > 0);
+      if (points.length < 2) return null;
+
+      const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+      const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+      const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+      const variance = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+      const slope = covariance / variance;
+
+      const firstRemaining = input.monthsInYear - input.remainingMonthDays.length;
+      return input.remainingMonthDays.map((days, i) =>
+        Math.max(0, meanY + slope * (firstRemaining + i - meanX)) * days
+      );
+    },
+  },
+
+  seasonal: {
+    id: 'seasonal',
+    name: 'Seasonal (last year\'s shape)',
+    description: 'Remaining months follow last fiscal year\'s monthly pattern, scaled to this year\'s YTD',
+    projectRemaining(input) {
+      const prior = input.priorYearMonthlySpend;
+      const monthsToDate = input.monthlyBurnRates.length;
+      if (!prior || prior.length < input.monthsInYear || monthsToDate === 0) return null;
+
+      // Prior-year spend over the same stretch of the year (partial last month pro-rated)
+      const last = input.monthlyBurnRates[monthsToDate - 1];
+      const lastMonthDays = getDaysInMonth(parseISO(`${last.month}-01`));
+      const priorToDate = prior.slice(0, monthsToDate - 1).reduce((sum, amount) => sum + amount, 0) +
+        prior[monthsToDate - 1] * (last.daysInMonth / lastMonthDays);
+      if (priorToDate <= 0) return null;
+
+      const growth = input.ytdSpend / priorToDate;
+      const firstRemaining = input.monthsInYear - input.remainingMonthDays.length;
+
+      return input.remainingMonthDays.map((days, i) => {
+        const index = firstRemaining + i;
+        // A partial current month only projects its remaining share
+        const monthDays = index === monthsToDate - 1 ? lastMonthDays : days;
+        return prior[index] * growth * (days / monthDays);
+      });
+    },
+  },
+};
+
+export function isForecastModelId(value: string): value is ForecastModelId {
+  return Object.prototype.hasOwnProperty.call(FORECAST_MODELS, value);
+}
+
+/**
+ * Default model from FORECAST_MODEL (read lazily), run-rate when unset or unknown
+ */
+export function getDefaultForecastModel(): ForecastModelId {
+  const model = process.env.FORECAST_MODEL;
+  if (!model) return DEFAULT_FORECAST_MODEL;
+  if (!isForecastModelId(model)) {
+    console.warn(`⚠️  Ignoring FORECAST_MODEL="${model}" - expected one of ${Object.keys(FORECAST_MODELS).join(', ')}`);
+    return DEFAULT_FORECAST_MODEL;
+  }
+  return model;
+}
+
+/**
+ * Days left in each remaining fiscal month after the given date
+ * The current month is included with its remaining days when the date is mid-month
+ */
+export function getRemainingMonthDays(currentDate: Date, calendar: FiscalCalendar): number[] {
+  const fiscalYear = calendar.getFiscalYear(currentDate);
+  const remaining: number[] = [];
+  const currentMonth = startOfMonth(currentDate);
+
+  for (const monthStart of calendar.getFiscalMonths(fiscalYear)) {
+    if (isAfter(monthStart, currentDate)) {
+      remaining.push(getDaysInMonth(monthStart));
+    } else if (monthStart.getTime() === currentMonth.getTime()) {
+      const daysLeft = differenceInDays(addMonths(monthStart, 1), startOfDay(currentDate)) - 1;
+      if (daysLeft > 0) remaining.push(daysLeft);
+    }
+  }
+
+  return remaining;
+}
+
+/**
+ * Monthly spend totals of one fiscal year, in fiscal order (months without rows are 0)
+ */
+export function getFiscalYearMonthlySpend(spendData: SpendData[], fiscalYear: number, calendar: FiscalCalendar): number[] {
+  const totals = new Map<string, number>();
+  spendData.forEach(spend => {
+    const key = getMonthKey(parseISO(spend.date));
+    totals.set(key, (totals.get(key) || 0) + spend.amount);
+  });
+
+  return calendar.getFiscalMonths(fiscalYear).map(month => totals.get(getMonthKey(month)) || 0);
+}
+
+/**
+ * Run a forecast model, falling back to the full-YTD run rate when it lacks data
+ */
+export function runForecastModel(
+  modelId: ForecastModelId,
+  input: ForecastModelInput
+): ForecastModelResult {
+  let usedModelId = modelId;
+  let projected = FORECAST_MODELS[modelId].projectRemaining(input);
+
+  if (!projected) {
+    usedModelId = 'run-rate';
+    projected = FORECAST_MODELS['run-rate'].projectRemaining(input) || [];
+  }
+
+  return {
+    modelId: usedModelId,
+    requestedModelId: modelId,
+    projectedMonthlySpend: projected,
+    forecastedEOYSpend: input.ytdSpend + projected.reduce((sum, amount) => sum + amount, 0),
+  };
+}
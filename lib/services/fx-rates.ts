@@ -0,0 +1,36 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { FxRates } from '../types';
+import { DEFAULT_CURRENCY, isCurrencyCode } from '../utils/currency';
+
+/**
+ * FX Rates
+ * Exchange rates for rolling up mixed-currency fleets and for reporting currencies, kept in a
+ * local JSON file maintained by hand: { "base": "USD", "asOf": "2026-10-01", "rates": { "EUR": 0.92 } }
+ * (units of each currency per one unit of base).
+ */
+
+export const FX_RATES_FILE = path.join(process.cwd(), 'data', 'fx-rates.json');
+
+/**
+ * Rates from the local file; without the file only same-currency amounts can be combined
+ */
+export async function loadFxRates(): Promise<FxRates> {
+  let fxRates: FxRates;
+  try {
+    fxRates = JSON.parse(await fs.readFile(FX_RATES_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { base: DEFAULT_CURRENCY, rates: {} };
+    throw error;
+  }
+
+  const invalid = Object.entries(fxRates.rates ?? {}).filter(([code, rate]) => !isCurrencyCode(code) || !(rate > 0));
+  if (!isCurrencyCode(fxRates.base) || invalid.length > 0) {
+    throw new Error(
+      `Invalid ${FX_RATES_FILE}: base must be a currency code and every rate a positive number per currency code` +
+      (invalid.length > 0 ? ` (check ${invalid.map(([code]) => code).join(', ')})` : '')
+    );
+  }
+
+  return fxRates;
+}
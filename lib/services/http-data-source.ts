@@ -0,0 +1,114 @@
+import type { ApiError, CerebrusApiResponse } from '../types';
+import type { DataSourceConfig } from '../config/data-source';
+import type { FleetDataSource } from './fleet-data-source';
+import { isCurrencyCode } from '../utils/currency';
+
+/**
+ * Cerebus HTTP JSON API client
+ *
+ * Endpoints:
+ *   GET /api/fleets/:fleetId  -> CerebrusApiResponse (budget, spend, subFleets)
+ *   GET /health               -> 200 when the API is up
+ *
+ * Develop against the local mock server: npm run mock-cerberus
+ */
+
+/**
+ * Fetch JSON with timeout and bearer auth, throwing ApiError on failure
+ */
+async function fetchJson<T>(url: string, config: DataSourceConfig['http']): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const apiError: ApiError = {
+        message: `Cerebus API error (${response.status}): ${await response.text()}`,
+        code: response.status === 404 ? 'FLEET_NOT_FOUND' : response.status === 401 || response.status === 403 ? 'AUTH_FAILED' : 'HTTP_ERROR',
+        statusCode: response.status,
+      };
+      throw apiError;
+    }
+
+    const text = await response.text();
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      const apiError: ApiError = { message: `Cerebus API returned invalid JSON from ${url}`, code: 'INVALID_RESPONSE' };
+      throw apiError;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      const apiError: ApiError = { message: `Cerebus API request timed out after ${config.timeoutMs}ms`, code: 'TIMEOUT' };
+      throw apiError;
+    }
+    if (error instanceof Error) {
+      const apiError: ApiError = { message: `Cerebus API request failed: ${error.message}`, code: 'NETWORK_ERROR' };
+      throw apiError;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Check the response has the fields the forecast relies on
+ */
+function validateFleetResponse(data: CerebrusApiResponse, fleetId: string): CerebrusApiResponse {
+  const validSpend = (rows: unknown) => rows === undefined ||
+    (Array.isArray(rows) && rows.every(row => typeof row?.date === 'string' && typeof row?.amount === 'number'));
+
+  if (!data || typeof data !== 'object' ||
+      (data.budget && (typeof data.budget.total !== 'number' || typeof data.budget.fleetName !== 'string' ||
+        (data.budget.currency !== undefined && !isCurrencyCode(data.budget.currency)))) ||
+      !validSpend(data.spend) ||
+      (data.subFleets !== undefined && (!Array.isArray(data.subFleets) || !data.subFleets.every(sub => validSpend(sub.spend))))) {
+    const apiError: ApiError = { message: `Malformed Cerebus API response for fleet ${fleetId}`, code: 'INVALID_RESPONSE' };
+    throw apiError;
+  }
+
+  return data;
+}
+
+/**
+ * Join an API path onto the base URL, keeping any path prefix it has (e.g. https://host/cerebus)
+ */
+function buildEndpointUrl(baseUrl: string, pathname: string): string {
+  const base = new URL(baseUrl);
+  base.pathname = `${base.pathname.replace(/\/+$/, '')}/${pathname.replace(/^\/+/, '')}`;
+  return base.toString();
+}
+
+/**
+ * HTTP data source backed by the Cerebus JSON API
+ */
+export function createHttpDataSource(config: DataSourceConfig['http']): FleetDataSource {
+  const endpoint = (pathname: string) => buildEndpointUrl(config.baseUrl, pathname);
+
+  return {
+    kind: 'http',
+
+    async getFleet(fleetId) {
+      const data = await fetchJson<CerebrusApiResponse>(endpoint(`/api/fleets/${encodeURIComponent(fleetId)}`), config);
+      return validateFleetResponse(data, fleetId);
+    },
+
+    async checkHealth() {
+      try {
+        await fetchJson(endpoint('/health'), config);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
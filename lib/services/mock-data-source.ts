@@ -0,0 +1,69 @@
+import type { CerebrusApiResponse } from '../types';
+import type { FleetDataSource } from './fleet-data-source';
+import { format, getDaysInMonth } from 'date-fns';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+
+/**
+ * Mock data generator for development/testing
+ * Also served by the local mock Cerberus server (npm run mock-cerberus)
+ */
+export function generateMockData(fleetId: string): CerebrusApiResponse {
+  const today = new Date();
+  const monthsData: Array<{ date: string; amount: number }> = [];
+
+  // Generate mock spend data for each fiscal month up to today
+  for (const monthStart of getFiscalCalendar().getMonthsInFiscalYearToDate(today)) {
+    const daysInMonth = getDaysInMonth(monthStart);
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(monthStart.getFullYear(), monthStart.getMonth(), day);
+      // Only generate data up to current day for current month
+      if (date > today) {
+        break;
+      }
+      monthsData.push({
+        date: format(date, 'yyyy-MM-dd'),
+        amount: Math.random() * 1000 + 500, // Random daily spend between $500-$1500
+      });
+    }
+  }
+
+  return {
+    budget: {
+      total: 500000, // $500K annual budget
+      fleetId,
+      fleetName: `Fleet ${fleetId}`,
+    },
+    spend: monthsData.map(data => ({ ...data, fleetId })),
+    subFleets: [
+      {
+        fleetId: `${fleetId}-sub1`,
+        fleetName: `Sub-Fleet ${fleetId}-1`,
+        budget: 150000,
+        spend: monthsData.map(data => ({ ...data, amount: data.amount * 0.3 })),
+      },
+      {
+        fleetId: `${fleetId}-sub2`,
+        fleetName: `Sub-Fleet ${fleetId}-2`,
+        budget: 100000,
+        spend: monthsData.map(data => ({ ...data, amount: data.amount * 0.2 })),
+      },
+    ],
+  };
+}
+
+/**
+ * Mock data source - always healthy, random spend for any fleet id
+ */
+export function createMockDataSource(): FleetDataSource {
+  return {
+    kind: 'mock',
+
+    async getFleet(fleetId) {
+      return generateMockData(fleetId);
+    },
+
+    async checkHealth() {
+      return true;
+    },
+  };
+}
@@ -0,0 +1,331 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { format } from 'date-fns';
+import { scrapeCerebusComplete, type ScrapedSpendData, type ScraperOptions } from './cerberus-scraper';
+import { getRootCause, toScraperError, type ScraperErrorCode } from './scraper-errors';
+import { REPORT_SCHEMA_VERSION } from './report-schema';
+import { calculateMonthlyBurnRates } from './forecast-calculator';
+import { loadFxRates } from './fx-rates';
+import { convertAmount, DEFAULT_CURRENCY, getReportingCurrency } from '../utils/currency';
+import { formatCurrency } from '../utils/date-utils';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+import type { MonthlyBurnRate } from '../types';
+
+/**
+ * Monthly Report
+ * Writes reports/YYYY-MM-DD/ (fleet-<id>.json, fleet-<id>-ERROR.json, summary-report.txt,
+ * summary.json) for one run date. Shared by the monthly job and the backfill command so a
+ * backfilled month looks exactly like one the monthly job produced.
+ */
+
+// The monthly job runs on the 6th and reports the previous, closed month
+export const MONTHLY_REPORT_RUN_DAY = 6;
+
+export const REPORTS_DIR = path.join(process.cwd(), 'reports');
+
+export interface FleetResult {
+  schemaVersion: number; // REPORT_SCHEMA_VERSION when written; older files are migrated on read
+  fleetId: string;
+  fleetName?: string;
+  reportDate: string;
+  scrapedAt?: string; // ISO timestamp the scrape finished (or failed)
+  fiscalYear?: number;
+  fiscalYearStart?: string; // YYYY-MM-DD
+  fiscalYearEnd?: string; // YYYY-MM-DD
+  imrGoal?: number;
+  currency?: string; // ISO 4217 code of every amount
+  ytdSpend?: number;
+  monthsElapsed?: number;
+  monthlyBurnRate?: number;
+  projectedEOY?: number;
+  variance?: number;
+  variancePercent?: number;
+  percentComplete?: number;
+  isOverBudget?: boolean;
+  spendHistory?: ScrapedSpendData[]; // Per-day / per-month spend rows from the usage table
+  scrapingDuration: string;
+  success: boolean;
+  error?: string;
+  errorCode?: ScraperErrorCode; // e.g. NAVIGATION_TIMEOUT (Cerberus outage) vs SELECTOR_MISSING (page changed)
+  attempts?: number; // Attempts made before giving up (transient errors are retried)
+  cause?: string; // Innermost cause of the final attempt
+}
+
+/**
+ * One report run: the date it runs as and where it writes
+ */
+export interface ReportRun {
+  runDate: Date; // Date the job runs (or is backfilled) as - drives billing period and monthsElapsed
+  reportDate: string; // YYYY-MM-DD, also the report directory name
+  reportMonth: string; // Reported month, e.g. "January 2026"
+  reportsDir: string;
+  backfill?: boolean;
+}
+
+export function createReportRun(runDate: Date = new Date(), options: { backfill?: boolean } = {}): ReportRun {
+  const reportDate = format(runDate, 'yyyy-MM-dd');
+  const reportingPeriod = getFiscalCalendar().getReportingPeriod(runDate);
+
+  return {
+    runDate,
+    reportDate,
+    reportMonth: reportingPeriod.monthStart.toLocaleDateString('en-US', { year: 'numeric', month: 'long' }),
+    reportsDir: path.join(REPORTS_DIR, reportDate),
+    backfill: options.backfill,
+  };
+}
+
+/**
+ * Run date of the monthly job that reports the given month
+ */
+export function getReportRunDate(reportedMonth: Date): Date {
+  return new Date(reportedMonth.getFullYear(), reportedMonth.getMonth() + 1, MONTHLY_REPORT_RUN_DAY);
+}
+
+/**
+ * Scrape one fleet as of the run date and save its JSON (or error JSON) into the run's directory
+ */
+export async function scrapeFleetReport(
+  fleetId: string,
+  cerberusUrl: string,
+  run: ReportRun,
+  options: ScraperOptions = {}
+): Promise<FleetResult> {
+  console.log(`\n▶️  Fleet ${fleetId}: started`);
+  const fleetStartTime = Date.now();
+
+  try {
+    const data = await scrapeCerebusComplete(fleetId, cerberusUrl, {
+      ...options,
+      artifactsDir: run.reportsDir,
+      asOf: run.runDate,
+      onProgress: (id, stage) => console.log(`   ⏳ Fleet ${id}: ${stage}`),
+    });
+    const fleetDuration = ((Date.now() - fleetStartTime) / 1000).toFixed(1);
+
+    // Store result
+    const result: FleetResult = {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      fleetId: data.fleetId,
+      fleetName: data.fleetName,
+      reportDate: run.reportDate,
+      scrapedAt: new Date().toISOString(),
+      fiscalYear: data.fiscalYear,
+      fiscalYearStart: format(data.fiscalYearStart, 'yyyy-MM-dd'),
+      fiscalYearEnd: format(data.fiscalYearEnd, 'yyyy-MM-dd'),
+      imrGoal: data.imrGoal,
+      currency: data.currency,
+      ytdSpend: data.ytdSpend,
+      monthsElapsed: data.monthsElapsed,
+      monthlyBurnRate: data.monthlyBurnRate,
+      projectedEOY: data.projectedEOY,
+      variance: data.variance,
+      variancePercent: data.variancePercent,
+      percentComplete: data.percentComplete,
+      isOverBudget: data.isOverBudget,
+      spendHistory: data.spendHistory,
+      scrapingDuration: fleetDuration,
+      success: true,
+    };
+
+    // Save individual fleet JSON
+    const fleetJsonPath = path.join(run.reportsDir, `fleet-${fleetId}.json`);
+    await fs.writeFile(fleetJsonPath, JSON.stringify(result, null, 2), 'utf-8');
+    // A re-run (or backfill --force) replaces an earlier failure for the same run date
+    await fs.rm(path.join(run.reportsDir, `fleet-${fleetId}-ERROR.json`), { force: true });
+
+    // One block per fleet so concurrent output stays readable
+    console.log([
+      `\n✅ Fleet ${fleetId}: SUCCESS (${fleetDuration}s)`,
+      `   ${data.fleetName}`,
+      `   IMR Goal: ${formatCurrency(data.imrGoal, data.currency)}`,
+      `   YTD Spend: ${formatCurrency(data.ytdSpend, data.currency)} (${data.percentComplete.toFixed(1)}%)`,
+      `   Projected EOY: ${formatCurrency(data.projectedEOY, data.currency)}`,
+      `   Variance: ${formatCurrency(data.variance, data.currency)} (${data.variancePercent.toFixed(1)}%)`,
+      `   Status: ${data.isOverBudget ? '⚠️  OVER Budget' : '✅ UNDER Budget'}`,
+      `   📄 Saved: fleet-${fleetId}.json`,
+    ].join('\n'));
+
+    return result;
+  } catch (error) {
+    const fleetDuration = ((Date.now() - fleetStartTime) / 1000).toFixed(1);
+    const scraperError = toScraperError(error);
+
+    const result: FleetResult = {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      fleetId,
+      reportDate: run.reportDate,
+      scrapedAt: new Date().toISOString(),
+      error: scraperError.message,
+      errorCode: scraperError.code,
+      attempts: scraperError.attempts,
+      cause: getRootCause(scraperError),
+      scrapingDuration: fleetDuration,
+      success: false,
+    };
+
+    console.log(`\n❌ Fleet ${fleetId}: FAILED ${scraperError.code} after ${scraperError.attempts} attempt(s) (${fleetDuration}s)`);
+    console.log(`   Error: ${scraperError.message}`);
+
+    // Save error JSON
+    const errorJsonPath = path.join(run.reportsDir, `fleet-${fleetId}-ERROR.json`);
+    await fs.writeFile(errorJsonPath, JSON.stringify(result, null, 2), 'utf-8');
+
+    return result;
+  }
+}
+
+/**
+ * Anomalous months in a fleet's scraped spend rows (none when the usage table was not read)
+ */
+export function getFleetSpendAnomalies(fleet: FleetResult): MonthlyBurnRate[] {
+  if (!fleet.spendHistory?.length || fleet.fiscalYear === undefined || fleet.monthsElapsed === undefined) return [];
+
+  const calendar = getFiscalCalendar();
+  const spendData = fleet.spendHistory.map(row => ({ fleetId: fleet.fleetId, date: row.date, amount: row.amount }));
+  return calculateMonthlyBurnRates(spendData, calendar.getPeriodEnd(fleet.fiscalYear, fleet.monthsElapsed), calendar)
+    .filter(month => month.isAnomaly);
+}
+
+/**
+ * Write summary-report.txt and summary.json for a run
+ */
+export async function generateSummaryReport(results: FleetResult[], run: ReportRun, totalDuration: string) {
+  const { reportDate, reportMonth, reportsDir } = run;
+  const successfulFleets = results.filter(r => r.success);
+  const failedFleets = results.filter(r => !r.success);
+  const anomalies = successfulFleets.flatMap(fleet => getFleetSpendAnomalies(fleet).map(month => ({
+    fleetId: fleet.fleetId,
+    fleetName: fleet.fleetName,
+    currency: fleet.currency ?? DEFAULT_CURRENCY,
+    month: month.month,
+    totalSpend: month.totalSpend,
+    dailyBurnRate: month.dailyBurnRate,
+    anomalyScore: month.anomalyScore,
+  })));
+
+  let report = '';
+  report += '═'.repeat(70) + '\n';
+  report += '              CERBERUS MONTHLY BUDGET REPORT\n';
+  report += '                     ' + reportMonth + '\n';
+  report += '═'.repeat(70) + '\n\n';
+  report += `Report Date: ${reportDate}\n`;
+  report += `Generated: ${new Date().toLocaleString()}\n\n`;
+  report += `Total Fleets: ${results.length}\n`;
+  report += `Successful: ${successfulFleets.length}\n`;
+  report += `Failed: ${failedFleets.length}\n`;
+  report += `Total Time: ${totalDuration}s\n\n`;
+  report += '═'.repeat(70) + '\n';
+
+  if (successfulFleets.length > 0) {
+    report += '\n📊 FLEET SUMMARY\n';
+    report += '═'.repeat(70) + '\n\n';
+
+    // Totals in the reporting currency; fleets without an FX rate are listed instead of summed
+    const reportingCurrency = getReportingCurrency() ?? DEFAULT_CURRENCY;
+    const fxRates = await loadFxRates();
+    const unconverted: FleetResult[] = [];
+    let totalIMR = 0;
+    let totalYTD = 0;
+    let totalProjected = 0;
+    let totalVariance = 0;
+
+    successfulFleets.forEach((fleet, index) => {
+      const currency = fleet.currency ?? DEFAULT_CURRENCY;
+      try {
+        const toReporting = (amount: number) => convertAmount(amount, currency, reportingCurrency, fxRates);
+        totalIMR += toReporting(fleet.imrGoal!);
+        totalYTD += toReporting(fleet.ytdSpend!);
+        totalProjected += toReporting(fleet.projectedEOY!);
+        totalVariance += toReporting(fleet.variance!);
+      } catch {
+        unconverted.push(fleet);
+      }
+
+      report += `Fleet ${index + 1}: ${fleet.fleetName} (${fleet.fleetId})\n`;
+      report += `─`.repeat(70) + '\n';
+      report += `IMR Goal (Budget):    ${formatCurrency(fleet.imrGoal!, currency)}\n`;
+      report += `YTD Spend:            ${formatCurrency(fleet.ytdSpend!, currency)} (${fleet.percentComplete!.toFixed(1)}% of year)\n`;
+      report += `Monthly Burn Rate:    ${formatCurrency(fleet.monthlyBurnRate!, currency)}/month\n`;
+      report += `Projected EOY:        ${formatCurrency(fleet.projectedEOY!, currency)}\n`;
+      report += `Variance:             ${formatCurrency(fleet.variance!, currency)} (${fleet.variancePercent!.toFixed(1)}%)\n`;
+      report += `Status:               ${fleet.isOverBudget ? '⚠️  OVER BUDGET' : '✅ UNDER BUDGET'}\n\n`;
+    });
+
+    const summedFleets = successfulFleets.length - unconverted.length;
+    report += '═'.repeat(70) + '\n';
+    report += `TOTALS (${summedFleets === successfulFleets.length ? 'All ' : ''}${summedFleets} Fleets, ${reportingCurrency})\n`;
+    report += '═'.repeat(70) + '\n';
+    report += `Total IMR Goal:       ${formatCurrency(totalIMR, reportingCurrency)}\n`;
+    report += `Total YTD Spend:      ${formatCurrency(totalYTD, reportingCurrency)}\n`;
+    report += `Total Projected EOY:  ${formatCurrency(totalProjected, reportingCurrency)}\n`;
+    report += `Total Variance:       ${formatCurrency(totalVariance, reportingCurrency)}\n`;
+    report += `Overall Status:       ${totalProjected > totalIMR ? '⚠️  OVER BUDGET' : '✅ UNDER BUDGET'}\n`;
+    if (unconverted.length > 0) {
+      report += `Not included:         ${unconverted.map(fleet => `${fleet.fleetId} (${fleet.currency}, no FX rate)`).join(', ')}\n`;
+    }
+    report += '\n';
+  }
+
+  if (anomalies.length > 0) {
+    report += '═'.repeat(70) + '\n';
+    report += '\n⚠️  SPEND ANOMALIES\n';
+    report += '═'.repeat(70) + '\n\n';
+
+    anomalies.forEach((anomaly) => {
+      report += `${anomaly.fleetName} (${anomaly.fleetId}) - ${anomaly.month}: ${anomaly.anomalyScore > 0 ? 'spike' : 'drop'}\n`;
+      report += `   Spend:      ${formatCurrency(anomaly.totalSpend, anomaly.currency)}`;
+      report += ` (${formatCurrency(anomaly.dailyBurnRate, anomaly.currency)}/day)\n`;
+      report += `   Score:      ${anomaly.anomalyScore.toFixed(1)}\n\n`;
+    });
+  }
+
+  if (failedFleets.length > 0) {
+    report += '═'.repeat(70) + '\n';
+    report += '\n❌ FAILED FLEETS\n';
+    report += '═'.repeat(70) + '\n\n';
+
+    // Failure counts by code - outage (timeouts) vs broken page (selectors, parsing) at a glance
+    const failuresByCode = new Map<string, number>();
+    failedFleets.forEach(fleet => {
+      const code = fleet.errorCode || 'UNKNOWN';
+      failuresByCode.set(code, (failuresByCode.get(code) || 0) + 1);
+    });
+    report += `By Code: ${Array.from(failuresByCode, ([code, count]) => `${code} x${count}`).join(', ')}\n\n`;
+
+    failedFleets.forEach((fleet, index) => {
+      report += `${index + 1}. Fleet ${fleet.fleetId}\n`;
+      report += `   Code:     ${fleet.errorCode || 'UNKNOWN'}\n`;
+      report += `   Attempts: ${fleet.attempts ?? 1}\n`;
+      report += `   Error:    ${fleet.error}\n`;
+      report += `   Cause:    ${fleet.cause || fleet.error}\n\n`;
+    });
+  }
+
+  report += '═'.repeat(70) + '\n';
+  report += 'END OF REPORT\n';
+  report += '═'.repeat(70) + '\n';
+
+  // Save text report
+  const reportPath = path.join(reportsDir, 'summary-report.txt');
+  await fs.writeFile(reportPath, report, 'utf-8');
+
+  // Save JSON summary
+  const jsonSummaryPath = path.join(reportsDir, 'summary.json');
+  await fs.writeFile(jsonSummaryPath, JSON.stringify({
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    reportDate,
+    reportPeriod: reportMonth,
+    generatedAt: new Date().toISOString(),
+    totalFleets: results.length,
+    successful: successfulFleets.length,
+    failed: failedFleets.length,
+    totalDuration,
+    ...(run.backfill ? { backfill: true } : {}),
+    anomalies,
+    fleets: results,
+  }, null, 2), 'utf-8');
+
+  console.log(`\n📄 Summary report saved: summary-report.txt`);
+  console.log(`📄 JSON summary saved: summary.json`);
+}
@@ -0,0 +1,342 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { isValid, parseISO } from 'date-fns';
+import type { BudgetRevision, ForecastAdjustment, ForecastModelId, ForecastResult, ScenarioChange, SpendData } from '../types';
+import { buildForecastResult, calculateMonthlyBurnRates } from './forecast-calculator';
+import {
+  isReportValidationError,
+  parseFleetErrorReport,
+  parseFleetReport,
+  parseReportSummary,
+  readReportFile,
+  type FleetErrorReport,
+  type FleetReport,
+  type InvalidReport,
+} from './report-schema';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+import { getChildFleets } from '../config/fleet-hierarchy';
+
+/**
+ * Forecasts from scraped reports
+ * Reads reports/<date>/fleet-<id>.json written by the monthly job and re-projects them with the
+ * requested forecast model, adjustments and (for what-if runs) scenario change.
+ */
+
+// Same directory as monthly-report's REPORTS_DIR - not imported since that module pulls in Puppeteer
+const REPORTS_DIR = path.join(process.cwd(), 'reports');
+
+// fleet-<id>.json / fleet-<id>-ERROR.json with a numeric Cerberus fleet id; any other file is not a fleet report
+const FLEET_REPORT_FILE = /^fleet-(\d+)(-ERROR)?\.json$/;
+
+/**
+ * Fleet JSON as saved by the monthly report, upgraded to the current schema on read
+ */
+export type ScrapedFleetReport = FleetReport;
+
+/**
+ * fleet-<id>-ERROR.json written when a fleet's scrape failed
+ */
+export type ScrapedFleetError = FleetErrorReport;
+
+/**
+ * One report directory and the outcome for every fleet in it
+ */
+export interface ReportSnapshot {
+  reportDate: string;
+  generatedAt?: string; // From summary.json; missing while a run is still in progress
+  backfill?: boolean;
+  fleets: Array<{
+    fleetId: string;
+    success: boolean;
+    scrapedAt: string;
+    errorCode?: string; // Failures only
+    error?: string;
+  }>;
+  invalidReports?: InvalidReport[]; // Malformed files in this directory, left out of fleets
+}
+
+/**
+ * Which snapshot to read: exactly reportDate, else the newest on or before asOf, else the newest (YYYY-MM-DD)
+ */
+export interface SnapshotSelection {
+  reportDate?: string;
+  asOf?: string;
+}
+
+export interface ReportForecastOptions {
+  model: ForecastModelId;
+  adjustments?: ForecastAdjustment[];
+  scenario?: ScenarioChange;
+  budgetHistory?: BudgetRevision[]; // See getFleetBudgetHistory
+}
+
+/**
+ * Report directories (YYYY-MM-DD), newest first; empty when nothing was scraped yet
+ */
+export async function listReportDates(): Promise<string[]> {
+  try {
+    const dirs = await fs.readdir(REPORTS_DIR);
+    return dirs.filter(dir => /^\d{4}-\d{2}-\d{2}$/.test(dir)).sort().reverse();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Fleet ids with a report in any of the given report directories
+ */
+export async function listReportedFleetIds(reportDates?: string[]): Promise<string[]> {
+  const ids = new Set<string>();
+  for (const reportDate of reportDates ?? await listReportDates()) {
+    const files = await fs.readdir(path.join(REPORTS_DIR, reportDate));
+    files.forEach((file) => {
+      const match = FLEET_REPORT_FILE.exec(file);
+      if (match && !match[2]) ids.add(match[1]);
+    });
+  }
+  return [...ids].sort();
+}
+
+/**
+ * A fleet's report on one date, or null when it has none
+ * Throws ReportValidationError for a malformed file rather than forecasting from it
+ */
+function readFleetReport(reportDate: string, fleetId: string): Promise<ScrapedFleetReport | null> {
+  return readReportFile(path.join(REPORTS_DIR, reportDate, `fleet-${fleetId}.json`), parseFleetReport);
+}
+
+function readFleetError(reportDate: string, fleetId: string): Promise<ScrapedFleetError | null> {
+  return readReportFile(path.join(REPORTS_DIR, reportDate, `fleet-${fleetId}-ERROR.json`), parseFleetErrorReport);
+}
+
+/**
+ * Read a report file, or - when invalidReports is given - skip a malformed one and record it there
+ * Listings pass invalidReports so one bad file does not hide every other fleet
+ */
+async function readOrSkipInvalid<T>(read: () => Promise<T | null>, invalidReports?: InvalidReport[]): Promise<T | null> {
+  try {
+    return await read();
+  } catch (error) {
+    if (!invalidReports || !isReportValidationError(error)) throw error;
+    invalidReports.push({ file: error.file, issues: error.issues });
+    return null;
+  }
+}
+
+/**
+ * Report directories, newest first, with each fleet's success or failure
+ * Malformed files are skipped and listed in the snapshot's invalidReports
+ */
+export async function listReportSnapshots(reportDates?: string[]): Promise<ReportSnapshot[]> {
+  const snapshots: ReportSnapshot[] = [];
+  for (const reportDate of reportDates ?? await listReportDates()) {
+    const fleets: ReportSnapshot['fleets'] = [];
+    const invalidReports: InvalidReport[] = [];
+    for (const file of (await fs.readdir(path.join(REPORTS_DIR, reportDate))).sort()) {
+      const match = FLEET_REPORT_FILE.exec(file);
+      if (!match) continue;
+
+      if (match[2]) {
+        const failure = await readOrSkipInvalid(() => readFleetError(reportDate, match[1]), invalidReports);
+        if (failure) {
+          fleets.push({ fleetId: match[1], success: false, scrapedAt: failure.scrapedAt, errorCode: failure.errorCode, error: failure.error });
+        }
+      } else {
+        const report = await readOrSkipInvalid(() => readFleetReport(reportDate, match[1]), invalidReports);
+        if (report) fleets.push({ fleetId: match[1], success: true, scrapedAt: report.scrapedAt });
+      }
+    }
+
+    const summary = await readOrSkipInvalid(
+      () => readReportFile(path.join(REPORTS_DIR, reportDate, 'summary.json'), parseReportSummary),
+      invalidReports
+    );
+    snapshots.push({
+      reportDate,
+      ...(summary ? { generatedAt: summary.generatedAt } : {}),
+      ...(summary?.backfill ? { backfill: true } : {}),
+      fleets,
+      ...(invalidReports.length > 0 ? { invalidReports } : {}),
+    });
+  }
+  return snapshots;
+}
+
+/**
+ * Newest report for a fleet
+ * With invalidReports, malformed reports are skipped (and recorded there) in favour of older ones
+ */
+export async function findLatestFleetReport(
+  fleetId: string,
+  reportDates?: string[],
+  invalidReports?: InvalidReport[]
+): Promise<{ reportDate: string; report: ScrapedFleetReport } | null> {
+  for (const reportDate of reportDates ?? await listReportDates()) {
+    const report = await readOrSkipInvalid(() => readFleetReport(reportDate, fleetId), invalidReports);
+    if (report) return { reportDate, report };
+  }
+  return null;
+}
+
+/**
+ * Problem with a snapshot selection, or null when it is valid
+ */
+export function validateSnapshotSelection(selection: SnapshotSelection): string | null {
+  if (selection.reportDate && selection.asOf) {
+    return 'Pass either reportDate or asOf, not both';
+  }
+  const date = selection.reportDate || selection.asOf;
+  // Scenario runs take these from a JSON body, so they may not even be strings
+  if (date && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValid(parseISO(date)))) {
+    return `${selection.reportDate ? 'reportDate' : 'asOf'} must be YYYY-MM-DD, got "${date}"`;
+  }
+  return null;
+}
+
+/**
+ * A fleet's report in the selected snapshot, plus the report dates up to it
+ * (a forecast from that snapshot must not see later reports either)
+ */
+export async function findFleetSnapshot(
+  fleetId: string,
+  selection: SnapshotSelection = {}
+): Promise<{ reportDate: string; report: ScrapedFleetReport; reportDates: string[] } | null> {
+  const until = selection.reportDate || selection.asOf;
+  const reportDates = (await listReportDates()).filter(date => !until || date <= until);
+  const latest = await findLatestFleetReport(fleetId, selection.reportDate ? [selection.reportDate] : reportDates);
+  return latest && { ...latest, reportDates };
+}
+
+/**
+ * Why findFleetSnapshot found nothing, for 404 responses
+ */
+export function describeMissingSnapshot(fleetId: string, selection: SnapshotSelection = {}): string {
+  if (selection.reportDate) {
+    return `No report for fleet ${fleetId} on ${selection.reportDate}. See /api/reports for the available snapshots.`;
+  }
+  if (selection.asOf) {
+    return `No report for fleet ${fleetId} on or before ${selection.asOf}.`;
+  }
+  return `No scraped data found for fleet ${fleetId}. Run 'npm run scrape-monthly-report' first.`;
+}
+
+/**
+ * Newest failed scrape for a fleet (invalidReports as for findLatestFleetReport)
+ */
+export async function findLatestFleetError(
+  fleetId: string,
+  reportDates?: string[],
+  invalidReports?: InvalidReport[]
+): Promise<{ reportDate: string; error: ScrapedFleetError } | null> {
+  for (const reportDate of reportDates ?? await listReportDates()) {
+    const error = await readOrSkipInvalid(() => readFleetError(reportDate, fleetId), invalidReports);
+    if (error) return { reportDate, error };
+  }
+  return null;
+}
+
+/**
+ * Every report of a fleet, oldest first
+ */
+export async function loadFleetReportHistory(
+  fleetId: string,
+  reportDates?: string[]
+): Promise<Array<{ reportDate: string; report: ScrapedFleetReport }>> {
+  const history: Array<{ reportDate: string; report: ScrapedFleetReport }> = [];
+  for (const reportDate of [...(reportDates ?? await listReportDates())].sort()) {
+    const report = await readFleetReport(reportDate, fleetId);
+    if (report) history.push({ reportDate, report });
+  }
+  return history;
+}
+
+/**
+ * Spend rows of the given fiscal year from the newest report that covers it (seasonal model input)
+ */
+export async function readFiscalYearSpend(reportDates: string[], fleetId: string, fiscalYear: number): Promise<SpendData[]> {
+  for (const reportDate of reportDates) {
+    const report = await readFleetReport(reportDate, fleetId);
+    if (report?.fiscalYear === fiscalYear && report.spendHistory.length > 0) {
+      return report.spendHistory.map(row => ({ fleetId, date: row.date, amount: row.amount }));
+    }
+  }
+  return [];
+}
+
+/**
+ * Forecast for one fleet from a scraped report
+ * Reports without spend rows fall back to the full-YTD run rate
+ */
+export async function buildReportForecast(
+  report: ScrapedFleetReport,
+  options: ReportForecastOptions,
+  reportDates?: string[]
+): Promise<ForecastResult> {
+  // Fiscal year boundaries recorded at scrape time (migrated reports get the calendar's)
+  const calendar = getFiscalCalendar();
+  const fiscalYearStart = parseISO(report.fiscalYearStart);
+  const fiscalYearEnd = parseISO(report.fiscalYearEnd);
+  const periodEnd = calendar.getPeriodEnd(report.fiscalYear, report.monthsElapsed);
+
+  // Real spend rows from the usage table
+  const spendData: SpendData[] = report.spendHistory.map(
+    row => ({ fleetId: report.fleetId, date: row.date, amount: row.amount })
+  );
+
+  const priorYearSpend = options.model === 'seasonal'
+    ? await readFiscalYearSpend(reportDates ?? await listReportDates(), report.fleetId, report.fiscalYear - 1)
+    : [];
+
+  return {
+    ...buildForecastResult(
+      report.fleetId,
+      report.fleetName,
+      report.imrGoal,
+      report.ytdSpend,
+      calculateMonthlyBurnRates(spendData, periodEnd, calendar),
+      periodEnd,
+      calendar,
+      {
+        model: options.model,
+        priorYearSpend,
+        adjustments: options.adjustments,
+        scenario: options.scenario,
+        budgetHistory: options.budgetHistory,
+        currency: report.currency,
+      }
+    ),
+    fiscalYearStart,
+    fiscalYearEnd,
+    subFleets: [],
+  };
+}
+
+/**
+ * Per-fleet forecasts nested like the configured hierarchy, ready for rollupFleetForecast
+ * Children are only read from the root's snapshot so a parent's totals line up with theirs;
+ * configured children without a report there are left out and listed in missingFleetIds
+ */
+export async function buildReportForecastTree(
+  root: { reportDate: string; report: ScrapedFleetReport },
+  getOptions: (report: ScrapedFleetReport) => Promise<ReportForecastOptions>,
+  reportDates?: string[]
+): Promise<{ forecast: ForecastResult; missingFleetIds: string[] }> {
+  const missingFleetIds: string[] = [];
+
+  const buildTree = async (report: ScrapedFleetReport): Promise<ForecastResult> => {
+    const forecast = await buildReportForecast(report, await getOptions(report), reportDates);
+    const subFleets: ForecastResult[] = [];
+    for (const child of getChildFleets(report.fleetId)) {
+      const childReport = await readFleetReport(root.reportDate, child.id);
+      if (childReport) {
+        subFleets.push(await buildTree(childReport));
+      } else {
+        missingFleetIds.push(child.id);
+      }
+    }
+    return { ...forecast, subFleets };
+  };
+
+  return { forecast: await buildTree(root.report), missingFleetIds };
+}
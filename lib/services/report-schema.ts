@@ -0,0 +1,251 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { format } from 'date-fns';
+import { z } from 'zod';
+import { SCRAPER_EXIT_CODES, type ScraperErrorCode } from './scraper-errors';
+import { DEFAULT_CURRENCY, isCurrencyCode } from '../utils/currency';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+
+/**
+ * Report File Schemas
+ * Zod schemas for the files the monthly job writes to reports/YYYY-MM-DD/ (fleet-<id>.json,
+ * fleet-<id>-ERROR.json, summary.json). Every file carries a schemaVersion; older files are
+ * upgraded on read by the migrations below, so readers only ever see the current shape.
+ *
+ * Versions:
+ *   1 - files without schemaVersion: no currency, fiscal year dates, spend rows, error codes or scrape time
+ *   2 - current
+ */
+
+export const REPORT_SCHEMA_VERSION = 2;
+
+/**
+ * A report file that does not match its schema (after migration) or is not JSON
+ */
+export class ReportValidationError extends Error {
+  readonly file: string;
+  readonly issues: string[]; // "path: problem", e.g. "imrGoal: Invalid input: expected number, received undefined"
+
+  constructor(file: string, issues: string[]) {
+    super(`Malformed report file ${file}: ${issues.join('; ')}`);
+    this.name = 'ReportValidationError';
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+export function isReportValidationError(error: unknown): error is ReportValidationError {
+  return error instanceof ReportValidationError;
+}
+
+/**
+ * A malformed file skipped by a listing (the fleet catalog, /api/reports) instead of failing it
+ */
+export interface InvalidReport {
+  file: string;
+  issues: string[];
+}
+
+const currencyCode = z.string().refine(isCurrencyCode, 'Expected an ISO 4217 currency code');
+const scraperErrorCode = z.enum(Object.keys(SCRAPER_EXIT_CODES) as [ScraperErrorCode, ...ScraperErrorCode[]]);
+
+const spendRowSchema = z.object({
+  date: z.iso.date(),
+  amount: z.number(),
+  category: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const fleetReportSchema = z.object({
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+  fleetId: z.string().min(1),
+  fleetName: z.string(),
+  reportDate: z.iso.date(),
+  scrapedAt: z.iso.datetime(),
+  fiscalYear: z.int(),
+  fiscalYearStart: z.iso.date(),
+  fiscalYearEnd: z.iso.date(),
+  imrGoal: z.number().positive(),
+  currency: currencyCode,
+  ytdSpend: z.number().nonnegative(),
+  monthsElapsed: z.int().min(1).max(12),
+  monthlyBurnRate: z.number(),
+  projectedEOY: z.number(),
+  variance: z.number(),
+  variancePercent: z.number(),
+  percentComplete: z.number(),
+  isOverBudget: z.boolean(),
+  spendHistory: z.array(spendRowSchema),
+  scrapingDuration: z.string(),
+  success: z.literal(true),
+});
+
+export const fleetErrorReportSchema = z.object({
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+  fleetId: z.string().min(1),
+  reportDate: z.iso.date(),
+  scrapedAt: z.iso.datetime(),
+  error: z.string(),
+  errorCode: scraperErrorCode,
+  attempts: z.int().min(1),
+  cause: z.string().optional(),
+  scrapingDuration: z.string(),
+  success: z.literal(false),
+});
+
+export const reportSummarySchema = z.object({
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+  reportDate: z.iso.date(),
+  reportPeriod: z.string(),
+  generatedAt: z.iso.datetime(),
+  totalFleets: z.int().nonnegative(),
+  successful: z.int().nonnegative(),
+  failed: z.int().nonnegative(),
+  totalDuration: z.string(),
+  backfill: z.boolean().optional(),
+  anomalies: z.array(z.object({
+    fleetId: z.string(),
+    fleetName: z.string().optional(),
+    currency: currencyCode,
+    month: z.string(),
+    totalSpend: z.number(),
+    dailyBurnRate: z.number(),
+    anomalyScore: z.number(),
+  })),
+  fleets: z.array(z.discriminatedUnion('success', [fleetReportSchema, fleetErrorReportSchema])),
+});
+
+export type FleetReport = z.infer<typeof fleetReportSchema>;
+export type FleetErrorReport = z.infer<typeof fleetErrorReportSchema>;
+export type ReportSummary = z.infer<typeof reportSummarySchema>;
+
+/**
+ * What a migration may need besides the file itself
+ */
+export interface ReportFileContext {
+  file: string;
+  modifiedAt: string; // ISO timestamp of the file, standing in for a missing scrapedAt
+}
+
+type RawReport = Record<string, unknown>;
+type Migration = (file: RawReport, context: ReportFileContext) => RawReport;
+
+// Keyed by the version each migration upgrades from
+const FLEET_REPORT_MIGRATIONS: Record<number, Migration> = {
+  1: (file, context) => {
+    const calendar = getFiscalCalendar();
+    const fiscalYear = typeof file.fiscalYear === 'number' ? file.fiscalYear : undefined;
+    return {
+      ...file,
+      schemaVersion: 2,
+      scrapedAt: file.scrapedAt ?? context.modifiedAt,
+      currency: file.currency ?? DEFAULT_CURRENCY,
+      fiscalYearStart: file.fiscalYearStart
+        ?? (fiscalYear === undefined ? undefined : format(calendar.getFiscalYearStart(fiscalYear), 'yyyy-MM-dd')),
+      fiscalYearEnd: file.fiscalYearEnd
+        ?? (fiscalYear === undefined ? undefined : format(calendar.getFiscalYearEnd(fiscalYear), 'yyyy-MM-dd')),
+      spendHistory: file.spendHistory ?? [],
+    };
+  },
+};
+
+const FLEET_ERROR_REPORT_MIGRATIONS: Record<number, Migration> = {
+  1: (file, context) => ({
+    ...file,
+    schemaVersion: 2,
+    scrapedAt: file.scrapedAt ?? context.modifiedAt,
+    errorCode: file.errorCode ?? 'UNKNOWN',
+    attempts: file.attempts ?? 1,
+  }),
+};
+
+const REPORT_SUMMARY_MIGRATIONS: Record<number, Migration> = {
+  1: (file, context) => ({
+    ...file,
+    schemaVersion: 2,
+    anomalies: Array.isArray(file.anomalies)
+      ? file.anomalies.map((anomaly: RawReport) => ({ ...anomaly, currency: anomaly.currency ?? DEFAULT_CURRENCY }))
+      : [],
+    fleets: Array.isArray(file.fleets)
+      ? file.fleets.map((fleet: RawReport) => migrate(
+        fleet,
+        fleet.success === false ? FLEET_ERROR_REPORT_MIGRATIONS : FLEET_REPORT_MIGRATIONS,
+        context
+      ))
+      : file.fleets,
+  }),
+};
+
+/**
+ * Apply migrations until the file reaches the current version
+ * Files from a newer version are left alone and fail validation on the version literal
+ */
+function migrate(file: RawReport, migrations: Record<number, Migration>, context: ReportFileContext): RawReport {
+  let current = file;
+  let version = typeof current.schemaVersion === 'number' ? current.schemaVersion : 1;
+  while (version < REPORT_SCHEMA_VERSION && migrations[version]) {
+    current = migrations[version](current, context);
+    version += 1;
+  }
+  return current;
+}
+
+function parseReport<T>(
+  raw: unknown,
+  schema: z.ZodType<T>,
+  migrations: Record<number, Migration>,
+  context: ReportFileContext
+): T {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ReportValidationError(context.file, ['(root): Expected a JSON object']);
+  }
+
+  const result = schema.safeParse(migrate(raw as RawReport, migrations, context));
+  if (!result.success) {
+    throw new ReportValidationError(
+      context.file,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+export function parseFleetReport(raw: unknown, context: ReportFileContext): FleetReport {
+  return parseReport(raw, fleetReportSchema, FLEET_REPORT_MIGRATIONS, context);
+}
+
+export function parseFleetErrorReport(raw: unknown, context: ReportFileContext): FleetErrorReport {
+  return parseReport(raw, fleetErrorReportSchema, FLEET_ERROR_REPORT_MIGRATIONS, context);
+}
+
+export function parseReportSummary(raw: unknown, context: ReportFileContext): ReportSummary {
+  return parseReport(raw, reportSummarySchema, REPORT_SUMMARY_MIGRATIONS, context);
+}
+
+/**
+ * Read and parse a report file, or null when it does not exist
+ * Throws ReportValidationError when the file is not JSON or does not match its schema
+ */
+export async function readReportFile<T>(
+  file: string,
+  parse: (raw: unknown, context: ReportFileContext) => T
+): Promise<T | null> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  // Errors name the file relative to the project (e.g. reports/2026-10-06/fleet-8304669.json)
+  const relativeFile = path.relative(process.cwd(), file);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ReportValidationError(relativeFile, [`(root): Invalid JSON - ${error instanceof Error ? error.message : error}`]);
+  }
+
+  return parse(raw, { file: relativeFile, modifiedAt: (await fs.stat(file)).mtime.toISOString() });
+}
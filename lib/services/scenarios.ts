@@ -0,0 +1,182 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ForecastModelId, ForecastResult, Scenario, ScenarioChange } from '../types';
+import { getFleetTree, getRollupMode } from '../config/fleet-hierarchy';
+import { rollupFleetForecast } from './forecast-calculator';
+import { FORECAST_MODELS, isForecastModelId } from './forecast-models';
+import { loadForecastAdjustments } from './forecast-adjustments';
+import { getFleetBudgetHistory, loadBudgetRevisions } from './budget-history';
+import { loadFxRates } from './fx-rates';
+import { readDataFile } from './data-file';
+import { buildReportForecastTree, findFleetSnapshot, type SnapshotSelection } from './report-forecast';
+import { getFiscalCalendar } from '../utils/fiscal-calendar';
+
+/**
+ * What-if Scenarios
+ * Re-forecasts a fleet tree from one report snapshot with per-fleet burn multipliers or monthly caps,
+ * rolls it up and returns it next to the unchanged baseline. Named scenarios are kept in a local JSON file.
+ */
+
+export const SCENARIOS_FILE = path.join(process.cwd(), 'data', 'scenarios.json');
+
+const scenariosSchema = z.array(z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  rootFleetId: z.string().min(1),
+  model: z.enum(Object.keys(FORECAST_MODELS) as [ForecastModelId, ...ForecastModelId[]]).optional(),
+  changes: z.array(z.object({
+    fleetId: z.string().min(1),
+    fromMonth: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM'),
+    multiplier: z.number().nonnegative().optional(),
+    monthlyCap: z.number().nonnegative().optional(),
+  })),
+  createdAt: z.iso.datetime(),
+}));
+
+export interface ScenarioInput {
+  rootFleetId: string;
+  model: ForecastModelId;
+  changes: ScenarioChange[];
+}
+
+export interface ScenarioResult extends ScenarioInput {
+  reportDate: string; // Report snapshot every fleet was read from
+  baseline: ForecastResult; // Rolled-up forecast without the changes
+  scenario: ForecastResult; // Rolled-up forecast with the changes
+  missingFleetIds: string[]; // Fleets in the tree without a report in the snapshot (left out of the rollup)
+}
+
+/**
+ * Fleet ids in the configured hierarchy under (and including) the root, depth first
+ */
+function getFleetTreeIds(rootFleetId: string): string[] {
+  return [rootFleetId, ...getFleetTree(rootFleetId).map(fleet => fleet.id).filter(id => id !== rootFleetId)];
+}
+
+/**
+ * Check a scenario request, returning the problems found (empty when valid)
+ */
+export function validateScenarioInput(input: Partial<ScenarioInput>): string[] {
+  const problems: string[] = [];
+
+  if (!input.rootFleetId) {
+    problems.push('rootFleetId is required');
+    return problems;
+  }
+  if (typeof input.rootFleetId !== 'string') {
+    problems.push('rootFleetId must be a string');
+    return problems;
+  }
+  if (input.model !== undefined && !isForecastModelId(input.model)) {
+    problems.push(`unknown forecast model "${input.model}"`);
+  }
+  if (!Array.isArray(input.changes)) {
+    problems.push('changes must be an array');
+    return problems;
+  }
+
+  const treeIds = new Set(getFleetTreeIds(input.rootFleetId));
+  const seen = new Set<string>();
+  const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+  input.changes.forEach((change, i) => {
+    const label = `changes[${i}]`;
+    if (!treeIds.has(change?.fleetId)) problems.push(`${label}: fleet ${change?.fleetId} is not in the ${input.rootFleetId} tree`);
+    if (seen.has(change?.fleetId)) problems.push(`${label}: only one change per fleet`);
+    seen.add(change?.fleetId);
+    if (typeof change?.fromMonth !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(change.fromMonth)) {
+      problems.push(`${label}: fromMonth must be YYYY-MM`);
+    }
+    if (change?.multiplier === undefined && change?.monthlyCap === undefined) {
+      problems.push(`${label}: set a multiplier or a monthlyCap`);
+    }
+    if (change?.multiplier !== undefined && !isAmount(change.multiplier)) problems.push(`${label}: multiplier must be a number >= 0`);
+    if (change?.monthlyCap !== undefined && !isAmount(change.monthlyCap)) problems.push(`${label}: monthlyCap must be a number >= 0`);
+  });
+
+  return problems;
+}
+
+/**
+ * Forecast the fleet tree with and without the scenario changes
+ * Every fleet is read from the root's report snapshot, like /api/fleet
+ * Returns null when the root fleet has no report in the selected snapshot
+ */
+export async function runScenario(input: ScenarioInput, selection: SnapshotSelection = {}): Promise<ScenarioResult | null> {
+  const latest = await findFleetSnapshot(input.rootFleetId, selection);
+  if (!latest) return null;
+
+  const adjustments = await loadForecastAdjustments();
+  const manualRevisions = await loadBudgetRevisions();
+  const fxRates = await loadFxRates();
+  const changes = new Map(input.changes.map(change => [change.fleetId, change]));
+
+  const buildTree = (withChanges: boolean) => buildReportForecastTree(
+    latest,
+    async report => ({
+      model: input.model,
+      adjustments: adjustments.filter(adjustment => adjustment.fleetId === report.fleetId),
+      scenario: withChanges ? changes.get(report.fleetId) : undefined,
+      budgetHistory: await getFleetBudgetHistory(
+        report.fleetId,
+        report.fiscalYear,
+        latest.reportDate,
+        { reportDates: latest.reportDates, manualRevisions }
+      ),
+    }),
+    latest.reportDates
+  );
+
+  const calendar = getFiscalCalendar();
+  const { forecast: baselineTree, missingFleetIds } = await buildTree(false);
+  const baseline = rollupFleetForecast(baselineTree, getRollupMode, calendar, undefined, fxRates);
+  const scenario = rollupFleetForecast(
+    (await buildTree(true)).forecast,
+    getRollupMode,
+    calendar,
+    fleetId => changes.get(fleetId),
+    fxRates
+  );
+
+  return { ...input, reportDate: latest.reportDate, baseline, scenario, missingFleetIds };
+}
+
+/**
+ * Saved scenarios, newest first (empty when the store does not exist yet)
+ * Throws when the file is malformed, so saving or deleting never overwrites it
+ */
+export async function loadScenarios(): Promise<Scenario[]> {
+  return (await readDataFile(SCENARIOS_FILE, scenariosSchema)) ?? [];
+}
+
+async function saveScenarios(scenarios: Scenario[]): Promise<void> {
+  await fs.mkdir(path.dirname(SCENARIOS_FILE), { recursive: true });
+  await fs.writeFile(SCENARIOS_FILE, `${JSON.stringify(scenarios, null, 2)}\n`);
+}
+
+export async function saveScenario(name: string, input: ScenarioInput): Promise<Scenario> {
+  const scenario: Scenario = {
+    id: randomUUID(),
+    name: name.trim(),
+    rootFleetId: input.rootFleetId,
+    model: input.model,
+    changes: input.changes,
+    createdAt: new Date().toISOString(),
+  };
+  await saveScenarios([scenario, ...(await loadScenarios())]);
+  return scenario;
+}
+
+/**
+ * Delete a saved scenario, returning false when it does not exist
+ */
+export async function deleteScenario(id: string): Promise<boolean> {
+  const scenarios = await loadScenarios();
+  const remaining = scenarios.filter(scenario => scenario.id !== id);
+  if (remaining.length === scenarios.length) return false;
+
+  await saveScenarios(remaining);
+  return true;
+}
@@ -0,0 +1,54 @@
+import type { CerebrusApiResponse } from '../types';
+import type { DataSourceConfig } from '../config/data-source';
+import type { FleetDataSource } from './fleet-data-source';
+
+/**
+ * Scraper data source - reads the Cerberus web UI with Puppeteer
+ * The scraper is imported on first use so Puppeteer stays out of client bundles
+ */
+export function createScraperDataSource(config: DataSourceConfig['scraper']): FleetDataSource {
+  return {
+    kind: 'scraper',
+
+    async getFleet(fleetId) {
+      if (typeof window !== 'undefined') {
+        throw new Error('The scraper data source only runs server-side');
+      }
+
+      console.log(`\n🔄 Scraping Cerberus data for fleet ${fleetId}...`);
+      const { scrapeCerebusComplete } = await import('./cerberus-scraper');
+      const scraped = await scrapeCerebusComplete(fleetId, config.cerberusUrl);
+      console.log(`✅ Successfully scraped fleet ${fleetId} from Cerberus\n`);
+
+      // Use the usage table rows; fall back to the YTD total when the table was not found
+      const spend: CerebrusApiResponse['spend'] = scraped.spendHistory.length > 0
+        ? scraped.spendHistory.map(row => ({ fleetId: scraped.fleetId, date: row.date, amount: row.amount }))
+        : [{
+          fleetId: scraped.fleetId,
+          date: new Date().toISOString().split('T')[0],
+          amount: scraped.ytdSpend,
+        }];
+
+      return {
+        budget: {
+          total: scraped.imrGoal,
+          fleetId: scraped.fleetId,
+          fleetName: scraped.fleetName,
+          currency: scraped.currency,
+        },
+        spend,
+      };
+    },
+
+    async checkHealth() {
+      try {
+        const { validateSession } = await import('./cerberus-scraper');
+        const fleetId = (process.env.FLEET_IDS || '8304669').split(',')[0].trim();
+        await validateSession(config.cerberusUrl, fleetId, { interactive: false });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
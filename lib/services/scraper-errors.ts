@@ -0,0 +1,77 @@
+/**
+ * Cerberus Scraper Errors
+ * Typed failures so unattended runs can react to the cause (and exit with a distinct code)
+ * instead of parsing error strings
+ */
+
+export type ScraperErrorCode =
+  | 'AUTH_REQUIRED' // No valid Cerberus session and no way to prompt for a manual login
+  | 'AUTH_EXPIRED' // A session was in use but Cerberus redirected to the login page
+  | 'NAVIGATION_TIMEOUT' // Cerberus page did not load in time (or the host was unreachable)
+  | 'PERIOD_BUTTON_MISSING' // "Full Year" / "Year to Date" buttons not rendered
+  | 'SELECTOR_MISSING' // A required registry selector matched nothing
+  | 'CURRENCY_PARSE_FAILURE' // Element found but its text is not a currency amount
+  | 'IMPLAUSIBLE_VALUE' // Parsed values fail sanity checks (negative, YTD far above budget)
+  | 'UNKNOWN'; // Anything not classified above
+
+/**
+ * Codes worth retrying with a fresh page - an overloaded or half-rendered Cerberus page
+ * A missing selector or unparseable value will fail the same way again
+ */
+export const TRANSIENT_ERROR_CODES: readonly ScraperErrorCode[] = ['NAVIGATION_TIMEOUT', 'PERIOD_BUTTON_MISSING'];
+
+/**
+ * Process exit codes for scripts, one per error code
+ * 1 stays reserved for "some fleets failed"
+ */
+export const SCRAPER_EXIT_CODES: Record<ScraperErrorCode, number> = {
+  AUTH_REQUIRED: 2,
+  AUTH_EXPIRED: 3,
+  NAVIGATION_TIMEOUT: 4,
+  PERIOD_BUTTON_MISSING: 5,
+  SELECTOR_MISSING: 6,
+  CURRENCY_PARSE_FAILURE: 7,
+  IMPLAUSIBLE_VALUE: 8,
+  UNKNOWN: 1,
+};
+
+export class ScraperError extends Error {
+  readonly code: ScraperErrorCode;
+  attempts: number; // Set by the retry loop once it gives up
+
+  constructor(code: ScraperErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ScraperError';
+    this.code = code;
+    this.attempts = 1;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_ERROR_CODES.includes(this.code);
+  }
+}
+
+export function isScraperError(error: unknown): error is ScraperError {
+  return error instanceof ScraperError;
+}
+
+/**
+ * Wrap any thrown value as a ScraperError, keeping existing codes
+ */
+export function toScraperError(error: unknown): ScraperError {
+  if (isScraperError(error)) {
+    return error;
+  }
+  return new ScraperError('UNKNOWN', error instanceof Error ? error.message : String(error), { cause: error });
+}
+
+/**
+ * Message of the innermost cause (e.g. the Puppeteer timeout behind NAVIGATION_TIMEOUT)
+ */
+export function getRootCause(error: unknown): string {
+  let current = error;
+  while (current instanceof Error && current.cause !== undefined) {
+    current = current.cause;
+  }
+  return current instanceof Error ? current.message : String(current);
+}
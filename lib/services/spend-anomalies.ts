@@ -0,0 +1,50 @@
+import type { MonthlyBurnRate } from '../types';
+
+/**
+ * Spend Anomaly Detection
+ * Flags months whose daily burn is far from the fiscal year's typical month, using the
+ * robust z-score 0.6745 * (x - median) / MAD so one outlier cannot hide itself by inflating
+ * the spread (as it would with mean / standard deviation).
+ */
+
+export const ANOMALY_SCORE_THRESHOLD = 3.5; // Iglewicz & Hoaglin's cut-off for the modified z-score
+export const MIN_ANOMALY_MONTHS = 4; // Fewer months give no meaningful median
+
+const MAD_SCALE = 0.6745; // Makes MAD comparable to a standard deviation for normal data
+const MEAN_AD_SCALE = 1.253314; // Same for the mean absolute deviation (used when MAD is 0)
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Score each month's daily burn rate and mark the anomalous ones
+ * Positive scores are spikes, negative ones drops; months without days score 0
+ */
+export function detectSpendAnomalies(
+  monthlyBurnRates: Array<Omit<MonthlyBurnRate, 'anomalyScore' | 'isAnomaly'>>
+): MonthlyBurnRate[] {
+  const rates = monthlyBurnRates.filter(month => month.daysInMonth > 0).map(month => month.dailyBurnRate);
+  const unscored = monthlyBurnRates.map(month => ({ ...month, anomalyScore: 0, isAnomaly: false }));
+  if (rates.length < MIN_ANOMALY_MONTHS) return unscored;
+
+  const center = median(rates);
+  const deviations = rates.map(rate => Math.abs(rate - center));
+  const mad = median(deviations);
+  const meanDeviation = deviations.reduce((sum, deviation) => sum + deviation, 0) / deviations.length;
+
+  // Robust z-score; falls back to the mean absolute deviation when most months are identical
+  const score = (rate: number): number => {
+    if (mad > 0) return MAD_SCALE * (rate - center) / mad;
+    if (meanDeviation > 0) return (rate - center) / (MEAN_AD_SCALE * meanDeviation);
+    return 0;
+  };
+
+  return unscored.map((month) => {
+    if (month.daysInMonth === 0) return month;
+    const anomalyScore = score(month.dailyBurnRate);
+    return { ...month, anomalyScore, isAnomaly: Math.abs(anomalyScore) > ANOMALY_SCORE_THRESHOLD };
+  });
+}
@@ -11,6 +11,31 @@ export interface BudgetData {
   fleetName: string;
   budget: number;
   fiscalYear: number;
+  currency: string; // ISO 4217 code of the budget and spend, e.g. "USD"
+}
+
+/**
+ * Exchange rates from data/fx-rates.json: units of each currency per one unit of `base`
+ */
+export interface FxRates {
+  base: string;
+  rates: Record<string, number>;
+  asOf?: string; // YYYY-MM-DD the rates were taken
+}
+
+/**
+ * An IMR goal value and the date it took effect
+ *   scraped - first report showing the goal (changes are detected between monthly scrapes)
+ *   manual  - entered by hand, e.g. the original goal from before the report archive began
+ */
+export interface BudgetRevision {
+  id?: string; // Manual entries only
+  fleetId: string;
+  fiscalYear: number;
+  effectiveDate: string; // YYYY-MM-DD
+  amount: number;
+  source: 'scraped' | 'manual';
+  note?: string;
 }
 
 export interface SpendData {
@@ -25,24 +50,133 @@ export interface MonthlyBurnRate {
   totalSpend: number;
   daysInMonth: number;
   dailyBurnRate: number;
+  anomalyScore: number; // Robust z-score of the daily burn against the year's median month
+  isAnomaly: boolean; // |anomalyScore| above the detection threshold
+}
+
+export type ForecastModelId = 'run-rate' | 'trailing' | 'ewma' | 'linear-regression' | 'seasonal';
+
+export interface ForecastBands {
+  p10: number;
+  p50: number; // Point forecast
+  p90: number;
+}
+
+export type BudgetStatus = 'under' | 'at-risk' | 'over';
+
+export interface BudgetPacing {
+  remainingBudget: number; // Budget minus YTD spend (negative once exhausted)
+  daysRemainingInYear: number;
+  daysUntilExhausted: number | null; // At the current daily burn; null when nothing is being spent
+  exhaustionDate: Date | null; // null when the budget is not being spent down
+  exhaustsBeforeYearEnd: boolean;
+  requiredDailyBurnRate: number; // Daily burn that lands exactly on budget at year end
+  requiredMonthlyBurnRate: number;
+  percentBudgetUsed: number;
+  percentYearElapsed: number;
+}
+
+/**
+ * Known future change layered onto the model forecast
+ *   one-time - `amount` spent once on `date` (e.g. a hardware purchase)
+ *   run-rate - monthly spend changes by `amount` from `date` onward (negative for savings or decommissions)
+ */
+export interface ForecastAdjustment {
+  id: string;
+  fleetId: string;
+  type: 'one-time' | 'run-rate';
+  date: string; // YYYY-MM-DD
+  amount: number;
+  description: string;
+}
+
+export interface AppliedForecastAdjustment extends ForecastAdjustment {
+  impact: number; // Change to EOY spend; 0 when the date is outside the rest of the fiscal year
+}
+
+/**
+ * What-if change to one fleet's projected spend from a fiscal month onward
+ * A change on a parent applies to its own (unallocated) spend; its children keep their own changes
+ */
+export interface ScenarioChange {
+  fleetId: string;
+  fromMonth: string; // YYYY-MM
+  multiplier?: number; // Projected burn x multiplier, e.g. 0.8 = 20% cut
+  monthlyCap?: number; // Projected monthly spend never exceeds this
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  rootFleetId: string;
+  model?: ForecastModelId;
+  changes: ScenarioChange[];
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * How a parent fleet's own Cerberus figures relate to its children
+ * includes-children: parent totals already contain the children; additive: parent is its direct spend only
+ */
+export type RollupMode = 'includes-children' | 'additive';
+
+export interface RollupTotals {
+  budget: number;
+  ytdSpend: number;
+  forecastedEOYSpend: number;
+}
+
+/**
+ * A rolled-up parent's totals against the sum of its children, in the parent's currency
+ * The difference is the unallocated line; children adding up to more than an includes-children
+ * parent means the hierarchy config or a report does not match Cerberus
+ */
+export interface RollupCheck {
+  parent: RollupTotals;
+  children: RollupTotals;
+  difference: RollupTotals; // parent - children
+  childrenExceedParent: boolean; // Children's budget or YTD spend above the parent's (beyond rounding)
 }
 
 export interface ForecastResult {
   fleetId: string;
   fleetName: string;
+  currency: string; // Currency of every amount in this result
+  convertedFrom?: string; // Set when the amounts were converted to a reporting currency
   budget: number;
   ytdSpend: number;
   avgDailyBurnRate: number;
   monthlyBurnRates: MonthlyBurnRate[];
-  forecastedEOYSpend: number;
+  forecastedEOYSpend: number; // Baseline plus adjustments
+  baselineEOYSpend: number; // Model forecast before adjustments (including the scenario in what-if runs)
+  scenarioImpact?: number; // What-if runs only: EOY change from scenario changes on this fleet and its children
+  adjustments: AppliedForecastAdjustment[];
+  forecastModel: ForecastModelId; // Model behind baselineEOYSpend
+  requestedForecastModel?: ForecastModelId; // Set when the requested model lacked data and run-rate was used
   variance: number;
   variancePercentage: number;
-  isOverBudget: boolean;
+  isOverBudget: boolean; // Point forecast above budget
+  originalBudget: number; // Goal at the start of the fiscal year (first budgetHistory entry, else budget)
+  originalVariance: number; // Forecast against the original goal
+  originalVariancePercentage: number;
+  budgetHistory: BudgetRevision[]; // Goal revisions this fiscal year, oldest first
+  forecastBands: ForecastBands; // EOY spend range from month-to-month burn volatility
+  overBudgetProbability: number; // 0-1
+  budgetStatus: BudgetStatus; // 'over' with isOverBudget, else 'at-risk' when the budget is below P90
+  pacing: BudgetPacing;
+  forecastDate: Date; // As-of date of the spend data
+  reportDate?: string; // Report snapshot (YYYY-MM-DD directory) the forecast was built from
+  scrapedAt?: string; // ISO timestamp that snapshot was scraped
   fiscalYearStart: Date;
   fiscalYearEnd: Date;
   daysInFiscalYear: number;
   daysElapsed: number;
   subFleets?: ForecastResult[];
+  rollupMode?: RollupMode; // Set on rolled-up parents
+  unallocated?: ForecastResult; // Parent minus the sum of its children (rolled-up parents only)
+  childrenExceedParent?: boolean; // Unallocated line only: a negative remainder, not a budget - its status and variance mean nothing
+  rollupCheck?: RollupCheck; // Rolled-up parents only
+  missingSubFleetIds?: string[]; // Configured children without a report in the snapshot (API responses)
 }
 
 export interface CerebrusApiResponse {
@@ -50,6 +184,7 @@ export interface CerebrusApiResponse {
     total: number;
     fleetId: string;
     fleetName: string;
+    currency?: string; // Defaults to USD
   };
   spend?: Array<{
     date: string;
@@ -60,6 +195,7 @@ export interface CerebrusApiResponse {
     fleetId: string;
     fleetName: string;
     budget: number;
+    currency?: string; // Defaults to the parent's currency
     spend: Array<{
       date: string;
       amount: number;
@@ -0,0 +1,94 @@
+/**
+ * Concurrency helpers for scraping several fleets at once
+ */
+
+/**
+ * Run a worker over items with at most `concurrency` in flight
+ * Results keep the order of the input items, regardless of completion order
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
+
+export interface HostPolitenessOptions {
+  maxConcurrentPerHost: number; // Requests allowed in flight per host
+  minIntervalMs: number; // Minimum gap between request starts per host
+}
+
+export interface HostLimiter {
+  run<T>(url: string, task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Per-host politeness limiter
+ * Caps concurrent requests to one host and spaces out their start times
+ */
+export function createHostLimiter(options: HostPolitenessOptions): HostLimiter {
+  const hosts = new Map<string, { active: number; lastStart: number; queue: Array<() => void> }>();
+
+  const getHost = (host: string) => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, lastStart: 0, queue: [] };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  const acquire = async (host: string) => {
+    const state = getHost(host);
+
+    if (state.active >= options.maxConcurrentPerHost) {
+      // Slot is handed over by release() without being freed in between
+      await new Promise<void>(resolve => state.queue.push(resolve));
+    } else {
+      state.active++;
+    }
+
+    // Reserve the next start slot before waiting so queued requests stay spaced out
+    const startAt = Math.max(Date.now(), state.lastStart + options.minIntervalMs);
+    state.lastStart = startAt;
+    const wait = startAt - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  };
+
+  const release = (host: string) => {
+    const state = getHost(host);
+    const next = state.queue.shift();
+    if (next) {
+      next();
+    } else {
+      state.active--;
+    }
+  };
+
+  return {
+    async run(url, task) {
+      const host = new URL(url).host;
+      await acquire(host);
+      try {
+        return await task();
+      } finally {
+        release(host);
+      }
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import type { ForecastResult, FxRates, RollupTotals } from '../types';
+
+/**
+ * Currency Utilities
+ * Currency detection in Cerberus text, FX conversion, and conversion of whole forecasts
+ * into a reporting currency.
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Symbols Cerberus may print in front of amounts; "$" is read as USD
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '$': 'USD',
+};
+
+// Intl accepts any three letters when formatting, so known codes come from the runtime's list
+let knownCurrencies: Set<string> | null = null;
+
+/**
+ * True for an ISO 4217 code known to the runtime (e.g. "EUR")
+ */
+export function isCurrencyCode(value: string): boolean {
+  if (!/^[A-Z]{3}$/.test(value)) return false;
+  knownCurrencies ??= new Set(Intl.supportedValuesOf('currency'));
+  return knownCurrencies.has(value);
+}
+
+/**
+ * Currency named in a label or amount ("EUR", "€1.2M", "1,000 GBP"), or null when there is none
+ */
+export function detectCurrency(text: string): string | null {
+  const code = text.toUpperCase().match(/(?:^|[^A-Z])([A-Z]{3})(?![A-Z])/)?.[1];
+  if (code && isCurrencyCode(code)) return code;
+
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(candidate => text.includes(candidate));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : null;
+}
+
+/**
+ * Reporting currency for API responses and report totals (REPORTING_CURRENCY), read lazily
+ */
+export function getReportingCurrency(): string | undefined {
+  const value = process.env.REPORTING_CURRENCY?.trim().toUpperCase();
+  return value && isCurrencyCode(value) ? value : undefined;
+}
+
+/**
+ * Units of `currency` per unit of the rates' base currency
+ */
+function getRate(currency: string, fxRates: FxRates): number {
+  if (currency === fxRates.base) return 1;
+  const rate = fxRates.rates[currency];
+  if (!(rate > 0)) {
+    throw new Error(`No FX rate for ${currency} (base ${fxRates.base}) - add it to data/fx-rates.json`);
+  }
+  return rate;
+}
+
+/**
+ * Convert an amount between currencies through the rates' base currency
+ * Throws when either currency has no rate
+ */
+export function convertAmount(amount: number, from: string, to: string, fxRates: FxRates): number {
+  if (from === to) return amount;
+  return amount / getRate(from, fxRates) * getRate(to, fxRates);
+}
+
+/**
+ * A forecast with every amount (sub-fleets and unallocated line included) converted to another currency
+ * Percentages, probabilities and anomaly scores do not depend on the currency and are kept
+ */
+export function convertForecastResult(forecast: ForecastResult, to: string, fxRates: FxRates): ForecastResult {
+  // Children may be billed in another currency than their parent
+  const subFleets = forecast.subFleets?.map(child => convertForecastResult(child, to, fxRates));
+  const unallocated = forecast.unallocated ? convertForecastResult(forecast.unallocated, to, fxRates) : undefined;
+  if (forecast.currency === to) return { ...forecast, subFleets, unallocated };
+
+  const factor = convertAmount(1, forecast.currency, to, fxRates);
+  const convert = (amount: number) => amount * factor;
+  const convertTotals = (totals: RollupTotals): RollupTotals => ({
+    budget: convert(totals.budget),
+    ytdSpend: convert(totals.ytdSpend),
+    forecastedEOYSpend: convert(totals.forecastedEOYSpend),
+  });
+
+  return {
+    ...forecast,
+    currency: to,
+    convertedFrom: forecast.convertedFrom ?? forecast.currency,
+    budget: convert(forecast.budget),
+    ytdSpend: convert(forecast.ytdSpend),
+    avgDailyBurnRate: convert(forecast.avgDailyBurnRate),
+    monthlyBurnRates: forecast.monthlyBurnRates.map(month => ({
+      ...month,
+      totalSpend: convert(month.totalSpend),
+      dailyBurnRate: convert(month.dailyBurnRate),
+    })),
+    forecastedEOYSpend: convert(forecast.forecastedEOYSpend),
+    baselineEOYSpend: convert(forecast.baselineEOYSpend),
+    scenarioImpact: forecast.scenarioImpact === undefined ? undefined : convert(forecast.scenarioImpact),
+    adjustments: forecast.adjustments.map(adjustment => ({
+      ...adjustment,
+      amount: convert(adjustment.amount),
+      impact: convert(adjustment.impact),
+    })),
+    variance: convert(forecast.variance),
+    originalBudget: convert(forecast.originalBudget),
+    originalVariance: convert(forecast.originalVariance),
+    budgetHistory: forecast.budgetHistory.map(revision => ({ ...revision, amount: convert(revision.amount) })),
+    forecastBands: {
+      p10: convert(forecast.forecastBands.p10),
+      p50: convert(forecast.forecastBands.p50),
+      p90: convert(forecast.forecastBands.p90),
+    },
+    pacing: {
+      ...forecast.pacing,
+      remainingBudget: convert(forecast.pacing.remainingBudget),
+      requiredDailyBurnRate: convert(forecast.pacing.requiredDailyBurnRate),
+      requiredMonthlyBurnRate: convert(forecast.pacing.requiredMonthlyBurnRate),
+    },
+    subFleets,
+    unallocated,
+    rollupCheck: forecast.rollupCheck && {
+      ...forecast.rollupCheck,
+      parent: convertTotals(forecast.rollupCheck.parent),
+      children: convertTotals(forecast.rollupCheck.children),
+      difference: convertTotals(forecast.rollupCheck.difference),
+    },
+  };
+}
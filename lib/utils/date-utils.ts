@@ -1,51 +1,43 @@
-import { format, startOfYear, endOfYear, differenceInDays, getDaysInMonth, parseISO, startOfMonth, endOfMonth, isAfter, isBefore } from 'date-fns';
+import { format, parseISO, isBefore } from 'date-fns';
+import { getFiscalCalendar } from './fiscal-calendar';
 
 /**
  * Get the fiscal year for a given date
- * Assumes Amazon's fiscal year starts on January 1
+ * Fiscal year boundaries come from the configured fiscal calendar
  */
 export function getFiscalYear(date: Date = new Date()): number {
-  return date.getFullYear();
+  return getFiscalCalendar().getFiscalYear(date);
 }
 
 /**
  * Get the start date of the fiscal year
  */
 export function getFiscalYearStart(fiscalYear?: number): Date {
-  const year = fiscalYear || getFiscalYear();
-  return startOfYear(new Date(year, 0, 1));
+  const calendar = getFiscalCalendar();
+  return calendar.getFiscalYearStart(fiscalYear || calendar.getFiscalYear());
 }
 
 /**
  * Get the end date of the fiscal year
  */
 export function getFiscalYearEnd(fiscalYear?: number): Date {
-  const year = fiscalYear || getFiscalYear();
-  return endOfYear(new Date(year, 11, 31));
+  const calendar = getFiscalCalendar();
+  return calendar.getFiscalYearEnd(fiscalYear || calendar.getFiscalYear());
 }
 
 /**
  * Calculate the total number of days in a fiscal year
  */
 export function getDaysInFiscalYear(fiscalYear?: number): number {
-  const start = getFiscalYearStart(fiscalYear);
-  const end = getFiscalYearEnd(fiscalYear);
-  return differenceInDays(end, start) + 1; // +1 to include both start and end dates
+  const calendar = getFiscalCalendar();
+  return calendar.getDaysInFiscalYear(fiscalYear || calendar.getFiscalYear());
 }
 
 /**
  * Calculate the number of days elapsed in the fiscal year up to a given date
  */
 export function getDaysElapsed(date: Date = new Date(), fiscalYear?: number): number {
-  const start = getFiscalYearStart(fiscalYear);
-  const currentDate = new Date(date);
-  
-  // If date is before fiscal year start, return 0
-  if (isBefore(currentDate, start)) {
-    return 0;
-  }
-  
-  return differenceInDays(currentDate, start) + 1; // +1 to include start date
+  return getFiscalCalendar().getDaysElapsed(new Date(date), fiscalYear);
 }
 
 /**
@@ -56,7 +48,6 @@ export function validateFiscalYearDate(date: Date, fiscalYear?: number): {
   error?: string;
 } {
   const start = getFiscalYearStart(fiscalYear);
-  const end = getFiscalYearEnd(fiscalYear);
   const currentDate = new Date(date);
 
   if (isBefore(currentDate, start)) {
@@ -66,14 +57,7 @@ export function validateFiscalYearDate(date: Date, fiscalYear?: number): {
     };
   }
 
-  if (isAfter(currentDate, end)) {
-    // Use fiscal year end date for calculations if current date is after fiscal year end
-    return {
-      isValid: true,
-      error: undefined,
-    };
-  }
-
+  // Dates after the fiscal year end are valid - calculations clamp to the fiscal year end
   return { isValid: true };
 }
 
@@ -81,33 +65,33 @@ export function validateFiscalYearDate(date: Date, fiscalYear?: number): {
  * Get all months in the fiscal year up to the current date
  */
 export function getMonthsInFiscalYearToDate(currentDate: Date = new Date(), fiscalYear?: number): Date[] {
-  const start = getFiscalYearStart(fiscalYear);
-  const end = new Date(currentDate);
-  const months: Date[] = [];
-
-  let current = startOfMonth(start);
-  const endOfCurrentMonth = startOfMonth(end);
-
-  while (!isAfter(current, endOfCurrentMonth)) {
-    months.push(new Date(current));
-    current = new Date(current.getFullYear(), current.getMonth() + 1, 1);
-  }
-
-  return months;
+  return getFiscalCalendar().getMonthsInFiscalYearToDate(new Date(currentDate), fiscalYear);
 }
 
 /**
  * Format currency
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, currency: string = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   }).format(amount);
 }
 
+/**
+ * Format currency in whole thousands for chart axes (e.g. "$120K")
+ */
+export function formatCurrencyThousands(amount: number, currency: string = 'USD'): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount / 1000) + 'K';
+}
+
 /**
  * Format percentage
  */
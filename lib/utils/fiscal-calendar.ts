@@ -0,0 +1,173 @@
+import { addMonths, differenceInDays, endOfDay, endOfMonth, format, isAfter, isBefore, startOfMonth } from 'date-fns';
+import { getFiscalCalendarConfig, type FiscalCalendarConfig } from '../config/fiscal-calendar';
+
+/**
+ * Fiscal Calendar
+ * Single source of truth for fiscal year boundaries, fiscal months and reporting periods.
+ * The scraper, the forecast calculator and the API all resolve dates through this module.
+ */
+
+export interface FiscalPeriod {
+  name: string; // e.g., "Q1"
+  label: string; // e.g., "Q1 FY2026"
+  start: Date;
+  end: Date;
+}
+
+/**
+ * The fiscal month a monthly report covers
+ * Reports run early in the month (on the 6th) and cover the previous, fully closed month
+ */
+export interface ReportingPeriod {
+  fiscalYear: number;
+  monthStart: Date; // First day of the reported month
+  periodEnd: Date; // Last day of the reported month
+  monthsElapsed: number; // Fiscal months closed, including the reported month (1-12)
+  monthsRemaining: number;
+}
+
+export interface FiscalCalendar {
+  readonly config: FiscalCalendarConfig;
+  readonly monthsInYear: number;
+  getFiscalYear(date?: Date): number;
+  getFiscalYearLabel(fiscalYear: number): string;
+  getFiscalYearStart(fiscalYear: number): Date;
+  getFiscalYearEnd(fiscalYear: number): Date;
+  getDaysInFiscalYear(fiscalYear: number): number;
+  getDaysElapsed(date: Date, fiscalYear?: number): number;
+  getFiscalMonthIndex(date: Date): number;
+  getFiscalMonths(fiscalYear: number): Date[];
+  getFiscalMonthNames(): string[];
+  getMonthsInFiscalYearToDate(date: Date, fiscalYear?: number): Date[];
+  getPeriodEnd(fiscalYear: number, monthsElapsed: number): Date;
+  getPeriods(fiscalYear: number): FiscalPeriod[];
+  getPeriodForDate(date: Date): FiscalPeriod;
+  getReportingPeriod(runDate?: Date): ReportingPeriod;
+}
+
+const MONTHS_IN_YEAR = 12;
+
+/**
+ * Create a fiscal calendar for the given configuration
+ */
+export function createFiscalCalendar(config: FiscalCalendarConfig): FiscalCalendar {
+  const startMonthIndex = config.startMonth - 1; // 0-11
+
+  // Calendar year in which the given fiscal year starts
+  const getStartYear = (fiscalYear: number): number =>
+    config.yearLabel === 'end' && startMonthIndex !== 0 ? fiscalYear - 1 : fiscalYear;
+
+  const getFiscalYear = (date: Date = new Date()): number => {
+    const startYear = date.getMonth() >= startMonthIndex ? date.getFullYear() : date.getFullYear() - 1;
+    return config.yearLabel === 'end' && startMonthIndex !== 0 ? startYear + 1 : startYear;
+  };
+
+  const getFiscalYearStart = (fiscalYear: number): Date =>
+    new Date(getStartYear(fiscalYear), startMonthIndex, 1);
+
+  const getFiscalYearEnd = (fiscalYear: number): Date =>
+    endOfDay(new Date(getStartYear(fiscalYear) + 1, startMonthIndex, 0));
+
+  const getDaysInFiscalYear = (fiscalYear: number): number =>
+    differenceInDays(getFiscalYearEnd(fiscalYear), getFiscalYearStart(fiscalYear)) + 1; // +1 to include both start and end dates
+
+  const getFiscalMonthIndex = (date: Date): number =>
+    (date.getMonth() - startMonthIndex + MONTHS_IN_YEAR) % MONTHS_IN_YEAR;
+
+  const getFiscalMonths = (fiscalYear: number): Date[] => {
+    const start = getFiscalYearStart(fiscalYear);
+    return Array.from({ length: MONTHS_IN_YEAR }, (_, i) => addMonths(start, i));
+  };
+
+  const getPeriods = (fiscalYear: number): FiscalPeriod[] => {
+    const start = getFiscalYearStart(fiscalYear);
+    const periods: FiscalPeriod[] = [];
+    let offset = 0;
+
+    for (const period of config.periods) {
+      const periodStart = addMonths(start, offset);
+      offset += period.months;
+      periods.push({
+        name: period.name,
+        label: `${period.name} ${config.labelPrefix}${fiscalYear}`,
+        start: periodStart,
+        end: endOfDay(endOfMonth(addMonths(start, offset - 1))),
+      });
+    }
+
+    return periods;
+  };
+
+  return {
+    config,
+    monthsInYear: MONTHS_IN_YEAR,
+    getFiscalYear,
+    getFiscalYearStart,
+    getFiscalYearEnd,
+    getDaysInFiscalYear,
+    getFiscalMonthIndex,
+    getFiscalMonths,
+    getPeriods,
+
+    getFiscalYearLabel(fiscalYear) {
+      return `${config.labelPrefix}${fiscalYear}`;
+    },
+
+    getDaysElapsed(date, fiscalYear = getFiscalYear(date)) {
+      const start = getFiscalYearStart(fiscalYear);
+
+      // If date is before fiscal year start, return 0
+      if (isBefore(date, start)) {
+        return 0;
+      }
+
+      // Past the fiscal year end, the whole year has elapsed
+      if (isAfter(date, getFiscalYearEnd(fiscalYear))) {
+        return getDaysInFiscalYear(fiscalYear);
+      }
+
+      return differenceInDays(date, start) + 1; // +1 to include start date
+    },
+
+    getFiscalMonthNames() {
+      return Array.from({ length: MONTHS_IN_YEAR }, (_, i) =>
+        format(new Date(2000, (startMonthIndex + i) % MONTHS_IN_YEAR, 1), 'MMMM')
+      );
+    },
+
+    getMonthsInFiscalYearToDate(date, fiscalYear = getFiscalYear(date)) {
+      const lastMonth = startOfMonth(date);
+      return getFiscalMonths(fiscalYear).filter(month => !isAfter(month, lastMonth));
+    },
+
+    getPeriodEnd(fiscalYear, monthsElapsed) {
+      return endOfDay(endOfMonth(addMonths(getFiscalYearStart(fiscalYear), monthsElapsed - 1)));
+    },
+
+    getPeriodForDate(date) {
+      const periods = getPeriods(getFiscalYear(date));
+      return periods.find(period => !isAfter(period.start, date) && !isBefore(period.end, date)) || periods[periods.length - 1];
+    },
+
+    getReportingPeriod(runDate = new Date()) {
+      // Report is for the PREVIOUS month (run on the 6th for prior month data)
+      const monthStart = new Date(runDate.getFullYear(), runDate.getMonth() - 1, 1);
+      const monthsElapsed = getFiscalMonthIndex(monthStart) + 1;
+
+      return {
+        fiscalYear: getFiscalYear(monthStart),
+        monthStart,
+        periodEnd: endOfDay(endOfMonth(monthStart)),
+        monthsElapsed,
+        monthsRemaining: MONTHS_IN_YEAR - monthsElapsed,
+      };
+    },
+  };
+}
+
+/**
+ * Get the fiscal calendar configured for this deployment
+ */
+export function getFiscalCalendar(): FiscalCalendar {
+  return createFiscalCalendar(getFiscalCalendarConfig());
+}
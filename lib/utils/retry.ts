@@ -0,0 +1,34 @@
+/**
+ * Retry with exponential backoff
+ */
+
+export interface RetryOptions {
+  maxAttempts: number; // Total attempts, including the first
+  baseDelayMs: number; // Delay before the first retry; doubles on every further retry
+  maxDelayMs?: number;
+  shouldRetry: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run a task until it succeeds, a non-retryable error is thrown or attempts run out
+ * The task receives the 1-based attempt number; the last error is rethrown
+ */
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs ?? Infinity);
+      options.onRetry?.(error, attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,148 @@
+#!/usr/bin/env tsx
+
+/**
+ * Historical Report Backfill
+ * Scrapes past billing periods and writes each into reports/ exactly as the monthly job
+ * would have on its run date (the 6th of the following month), with that report date
+ * and the matching monthsElapsed.
+ *
+ * Usage: npm run backfill -- --from=2025-02 --to=2025-09 [--fleets=8304669,8305082] [--force]
+ *   --from / --to  Reported months (YYYY-MM), inclusive
+ *   --fleets       Defaults to FLEET_IDS
+ *   --force        Re-scrape fleets that already have a report for that run date
+ */
+
+import { config } from 'dotenv';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { addMonths, format, isAfter, isValid, parse, startOfMonth } from 'date-fns';
+import { closeBrowser, validateSession } from '../lib/services/cerberus-scraper';
+import { isScraperError, SCRAPER_EXIT_CODES } from '../lib/services/scraper-errors';
+import { parseFleetReport, readReportFile } from '../lib/services/report-schema';
+import {
+  createReportRun,
+  generateSummaryReport,
+  getReportRunDate,
+  scrapeFleetReport,
+  type FleetResult,
+} from '../lib/services/monthly-report';
+import { runPool } from '../lib/utils/concurrency';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const getArg = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+
+const CERBERUS_URL = process.env.CERBERUS_URL || 'https://cerberus.cloudtune.amazon.dev';
+const FLEET_IDS = (getArg('fleets') || process.env.FLEET_IDS || '8304669,8305082,8304674,10089347,8967127,3046715')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean);
+const SCRAPE_CONCURRENCY = Math.max(1, parseInt(process.env.SCRAPE_CONCURRENCY || '', 10) || 2);
+const FORCE = args.includes('--force');
+
+/**
+ * Parse a YYYY-MM argument into the first day of that month
+ */
+function parseMonthArg(name: string): Date {
+  const value = getArg(name);
+  const month = value ? parse(value, 'yyyy-MM', new Date()) : null;
+  if (!month || !isValid(month)) {
+    console.error(`❌ --${name}=YYYY-MM is required (got ${value ?? 'nothing'})`);
+    process.exit(1);
+  }
+  return startOfMonth(month);
+}
+
+/**
+ * Read a fleet result already saved for this run date (success only, upgraded to the current schema)
+ * A malformed file is treated as missing so the month is scraped again
+ */
+async function readExistingResult(reportsDir: string, fleetId: string): Promise<FleetResult | null> {
+  try {
+    return await readReportFile(path.join(reportsDir, `fleet-${fleetId}.json`), parseFleetReport);
+  } catch {
+    return null;
+  }
+}
+
+async function backfill() {
+  const from = parseMonthArg('from');
+  const to = parseMonthArg('to');
+  const lastClosedMonth = startOfMonth(addMonths(new Date(), -1));
+
+  if (isAfter(from, to)) {
+    console.error('❌ --from must not be after --to');
+    process.exit(1);
+  }
+  if (isAfter(to, lastClosedMonth)) {
+    console.error(`❌ --to must be a closed month (${format(lastClosedMonth, 'yyyy-MM')} or earlier)`);
+    process.exit(1);
+  }
+
+  const months: Date[] = [];
+  for (let month = from; !isAfter(month, to); month = addMonths(month, 1)) {
+    months.push(month);
+  }
+
+  console.log('\n╔═══════════════════════════════════════════════════════════════╗');
+  console.log('║                CERBERUS REPORT BACKFILL                        ║');
+  console.log('╚═══════════════════════════════════════════════════════════════╝\n');
+  console.log(`📅 Months: ${format(from, 'MMMM yyyy')} - ${format(to, 'MMMM yyyy')} (${months.length})`);
+  console.log(`🏢 Fleets: ${FLEET_IDS.join(', ')}`);
+  console.log(`🌐 Cerberus URL: ${CERBERUS_URL}`);
+  console.log(`⚙️  Concurrency: ${SCRAPE_CONCURRENCY} fleet(s) at a time${FORCE ? ' | --force' : ''}\n`);
+  console.log('═'.repeat(60));
+
+  console.log('\n🔐 Validating Cerberus session...');
+  await validateSession(CERBERUS_URL, FLEET_IDS[0]);
+  console.log('✅ Session valid');
+
+  let totalFailed = 0;
+
+  // One month at a time so each report directory is complete before moving on
+  for (const [index, month] of months.entries()) {
+    const run = createReportRun(getReportRunDate(month), { backfill: true });
+    console.log(`\n[${index + 1}/${months.length}] ${run.reportMonth} → reports/${run.reportDate}/`);
+    console.log('─'.repeat(60));
+
+    await fs.mkdir(run.reportsDir, { recursive: true });
+    const startTime = Date.now();
+
+    const results = await runPool(FLEET_IDS, SCRAPE_CONCURRENCY, async fleetId => {
+      const existing = FORCE ? null : await readExistingResult(run.reportsDir, fleetId);
+      if (existing) {
+        console.log(`   ⏭️  Fleet ${fleetId}: already reported, skipping (use --force to re-scrape)`);
+        return existing;
+      }
+      return scrapeFleetReport(fleetId, CERBERUS_URL, run);
+    });
+
+    const totalDuration = ((Date.now() - startTime) / 1000).toFixed(1);
+    await generateSummaryReport(results, run, totalDuration);
+
+    const failed = results.filter(r => !r.success);
+    totalFailed += failed.length;
+    console.log(`\n${failed.length === 0 ? '✅' : '⚠️ '} ${run.reportMonth}: ${results.length - failed.length}/${results.length} fleets (${totalDuration}s)`);
+    failed.forEach(r => console.log(`   • ${r.fleetId}: [${r.errorCode || 'UNKNOWN'}] ${r.error}`));
+  }
+
+  await closeBrowser();
+
+  console.log('\n' + '═'.repeat(60));
+  console.log(`✨ Backfilled ${months.length} month(s)${totalFailed > 0 ? `, ${totalFailed} fleet failure(s)` : ''}`);
+  console.log('═'.repeat(60) + '\n');
+
+  process.exit(totalFailed > 0 ? 1 : 0);
+}
+
+backfill().catch(async error => {
+  await closeBrowser();
+  if (isScraperError(error)) {
+    console.error(`\n❌ ${error.code}: ${error.message}`);
+    process.exit(SCRAPER_EXIT_CODES[error.code]);
+  }
+  console.error('\n❌ Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+#!/usr/bin/env tsx
+
+/**
+ * Forecast Backtest
+ * Replays each forecast model as of every archived report in reports/YYYY-MM-DD/ and compares
+ * the projection with the actual YTD spend of later reports in the same fiscal year.
+ *
+ * Usage: npm run backtest -- [--fleets=8304669,8305082] [--models=run-rate,trailing] [--output=backtest.json]
+ *   --fleets  Defaults to every fleet with a report
+ *   --models  Defaults to every registered model
+ *   --output  Also write every sample and metric as JSON
+ *
+ *   MAPE - mean absolute percentage error (lower is better)
+ *   Bias - mean signed percentage error (positive = forecasts ran high)
+ */
+
+import { config } from 'dotenv';
+import { promises as fs } from 'fs';
+import { runBacktest, type BacktestMetrics } from '../lib/services/forecast-backtest';
+import { FORECAST_MODELS, getDefaultForecastModel, isForecastModelId } from '../lib/services/forecast-models';
+import type { ForecastModelId } from '../lib/types';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const getArg = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+const getListArg = (name: string) => getArg(name)?.split(',').map(value => value.trim()).filter(Boolean);
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+function printMetrics(metrics: BacktestMetrics[]) {
+  console.log(`   ${'Model'.padEnd(20)}  ${'Samples'.padStart(7)}  ${'MAPE'.padStart(8)}  ${'Bias'.padStart(8)}`);
+  [...metrics].sort((a, b) => a.mape - b.mape).forEach((row) => {
+    console.log(`   ${row.modelId.padEnd(20)}  ${String(row.samples).padStart(7)}  ${`${row.mape.toFixed(1)}%`.padStart(8)}  ${formatPercent(row.bias).padStart(8)}`);
+  });
+}
+
+async function main() {
+  const modelIds = getListArg('models');
+  const unknown = modelIds?.filter(id => !isForecastModelId(id)) ?? [];
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown model(s): ${unknown.join(', ')} (available: ${Object.keys(FORECAST_MODELS).join(', ')})`);
+    process.exit(1);
+  }
+
+  console.log('\n🔁 Backtesting forecast models against archived reports...');
+  const result = await runBacktest({
+    fleetIds: getListArg('fleets'),
+    modelIds: modelIds as ForecastModelId[] | undefined,
+  });
+
+  if (result.samples.length === 0) {
+    console.log('\n⚠️  Nothing to score - each fleet needs at least two reports in the same fiscal year (see npm run backfill)\n');
+    return;
+  }
+
+  const fleetIds = [...new Set(result.byFleet.map(row => row.fleetId))];
+  for (const fleetId of fleetIds) {
+    console.log(`\n📊 Fleet ${fleetId}`);
+    printMetrics(result.byFleet.filter(row => row.fleetId === fleetId));
+  }
+
+  console.log('\n📈 All fleets');
+  printMetrics(result.byModel);
+
+  const fallbacks = result.samples.filter(sample => sample.usedModelId !== sample.modelId).length;
+  if (fallbacks > 0) {
+    console.log(`\n   ℹ️  ${fallbacks} sample(s) fell back to the run rate (model lacked data)`);
+  }
+
+  const defaultModel = getDefaultForecastModel();
+  console.log(`\n🏆 Lowest MAPE: ${result.bestModelId} (current default: ${defaultModel})`);
+
+  const output = getArg('output');
+  if (output) {
+    await fs.writeFile(output, `${JSON.stringify(result, null, 2)}\n`);
+    console.log(`💾 Samples and metrics written to ${output}`);
+  }
+  console.log('');
+}
+
+main().catch(error => {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+#!/usr/bin/env tsx
+
+/**
+ * Budget History
+ * Shows a fleet's IMR goal revisions (detected between archived reports plus manual entries) and
+ * manages the manual entries in data/budget-history.json. The dashboard and API report variance
+ * against both the original and the current goal.
+ *
+ * Usage:
+ *   npm run budget-history -- show --fleet=8304669 [--fiscal-year=2026]
+ *   npm run budget-history -- list [--fleet=8304669]
+ *   npm run budget-history -- add --fleet=8304669 --fiscal-year=2026 --date=2026-01-01 --amount=12000000 --note="Original goal"
+ *   npm run budget-history -- remove <id>
+ */
+
+import { config } from 'dotenv';
+import { format } from 'date-fns';
+import {
+  BUDGET_HISTORY_FILE,
+  addBudgetRevision,
+  getFleetBudgetHistory,
+  loadBudgetRevisions,
+  removeBudgetRevision,
+} from '../lib/services/budget-history';
+import { findLatestFleetReport } from '../lib/services/report-forecast';
+import type { BudgetRevision } from '../lib/types';
+import { formatCurrency } from '../lib/utils/date-utils';
+import { getFiscalCalendar } from '../lib/utils/fiscal-calendar';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const [command, ...args] = process.argv.slice(2);
+// Values may contain "=" (notes), so only split on the first one
+const getArg = (name: string) => {
+  const arg = args.find(value => value.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+};
+
+function printRevision(revision: BudgetRevision) {
+  const id = revision.id ?? '(scraped)'.padEnd(36);
+  console.log(`   ${id}  ${revision.fleetId}  FY${revision.fiscalYear}  ${revision.effectiveDate}  ${formatCurrency(revision.amount).padStart(16)}  ${revision.source.padEnd(7)}  ${revision.note ?? ''}`);
+}
+
+async function main() {
+  switch (command) {
+    case 'show': {
+      const fleetId = getArg('fleet');
+      if (!fleetId) {
+        console.error('❌ Usage: npm run budget-history -- show --fleet=<id> [--fiscal-year=<year>]');
+        process.exit(1);
+      }
+      const latest = await findLatestFleetReport(fleetId);
+      const fiscalYear = Number(getArg('fiscal-year')) || latest?.report.fiscalYear || getFiscalCalendar().getFiscalYear();
+      const history = await getFleetBudgetHistory(fleetId, fiscalYear, format(new Date(), 'yyyy-MM-dd'));
+
+      console.log(`\n📋 Fleet ${fleetId} FY${fiscalYear}: ${history.length} goal revision(s)\n`);
+      history.forEach(printRevision);
+      if (history.length > 1) {
+        const change = history[history.length - 1].amount - history[0].amount;
+        console.log(`\n   Original → current: ${change >= 0 ? '+' : ''}${formatCurrency(change)}`);
+      }
+      console.log('');
+      break;
+    }
+
+    case 'list': {
+      const revisions = await loadBudgetRevisions(getArg('fleet'));
+      console.log(`\n📋 ${revisions.length} manual revision(s) in ${BUDGET_HISTORY_FILE}\n`);
+      revisions.forEach(printRevision);
+      console.log('');
+      break;
+    }
+
+    case 'add': {
+      const amount = getArg('amount');
+      const fiscalYear = getArg('fiscal-year');
+      const revision = await addBudgetRevision({
+        fleetId: getArg('fleet') || '',
+        fiscalYear: fiscalYear === undefined ? NaN : Number(fiscalYear),
+        effectiveDate: getArg('date') || '',
+        amount: amount === undefined ? NaN : Number(amount),
+        note: getArg('note'),
+      });
+      console.log('\n✅ Budget revision added:\n');
+      printRevision(revision);
+      console.log('');
+      break;
+    }
+
+    case 'remove': {
+      if (!args[0]) {
+        console.error('❌ Usage: npm run budget-history -- remove <id>');
+        process.exit(1);
+      }
+      if (!(await removeBudgetRevision(args[0]))) {
+        console.error(`❌ No manual revision with id ${args[0]}`);
+        process.exit(1);
+      }
+      console.log(`\n✅ Budget revision ${args[0]} removed\n`);
+      break;
+    }
+
+    default:
+      console.error('❌ Usage: npm run budget-history -- show|list|add|remove (see scripts/budget-history.ts)');
+      process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
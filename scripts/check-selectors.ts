@@ -0,0 +1,78 @@
+#!/usr/bin/env tsx
+
+/**
+ * Cerberus Selector Health Check
+ * Loads a fleet page and checks every selector in lib/config/cerberus-selectors.ts
+ * Reports match count and text per selector; saves HTML + screenshot when a required one misses
+ *
+ * Usage: npm run selectors:check [-- <fleetId>]
+ */
+
+import { config } from 'dotenv';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { checkSelectors, closeBrowser } from '../lib/services/cerberus-scraper';
+import { isScraperError, SCRAPER_EXIT_CODES } from '../lib/services/scraper-errors';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const CERBERUS_URL = process.env.CERBERUS_URL || 'https://cerberus.cloudtune.amazon.dev';
+const FLEET_ID = process.argv[2] || process.env.TEST_FLEET_ID || '8304669';
+const reportDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+const reportsDir = path.join(process.cwd(), 'reports', reportDate);
+
+async function main() {
+  console.log('\n🩺 Cerberus Selector Health Check');
+  console.log(`Fleet ID: ${FLEET_ID}`);
+  console.log(`Cerberus URL: ${CERBERUS_URL}\n`);
+  console.log('═'.repeat(60));
+
+  const results = await checkSelectors(FLEET_ID, CERBERUS_URL, { artifactsDir: reportsDir });
+  await closeBrowser();
+
+  let currentView = '';
+  for (const result of results) {
+    if (result.view !== currentView) {
+      currentView = result.view;
+      console.log(`\n📄 View: ${currentView}`);
+    }
+
+    const status = result.matched ? '✅' : result.required ? '❌' : '⚪';
+    console.log(`   ${status} ${result.name} (${result.selector})`);
+    console.log(`      Found: ${result.count}${result.text !== null ? ` | Text: "${result.text}"` : ''}${result.error ? ` | Error: ${result.error}` : ''}`);
+  }
+
+  const broken = results.filter(r => r.required && !r.matched);
+  const resultPath = path.join(reportsDir, `selector-check-${FLEET_ID}.json`);
+  await fs.mkdir(reportsDir, { recursive: true });
+  await fs.writeFile(resultPath, JSON.stringify({
+    fleetId: FLEET_ID,
+    checkedAt: new Date().toISOString(),
+    healthy: broken.length === 0,
+    results,
+  }, null, 2), 'utf-8');
+
+  console.log('\n' + '═'.repeat(60));
+  console.log(`📊 ${results.filter(r => r.matched).length}/${results.length} selectors matched`);
+  if (broken.length > 0) {
+    console.log(`❌ Required selectors missing: ${broken.map(r => r.name).join(', ')}`);
+    console.log(`   Snapshot saved under: ${path.join(reportsDir, 'debug')}`);
+  } else {
+    console.log('✅ All required selectors matched');
+  }
+  console.log(`📄 Results saved: ${resultPath}`);
+  console.log('═'.repeat(60) + '\n');
+
+  process.exit(broken.length > 0 ? 1 : 0);
+}
+
+main().catch(async error => {
+  await closeBrowser();
+  if (isScraperError(error)) {
+    console.error(`\n❌ ${error.code}: ${error.message}`);
+    process.exit(SCRAPER_EXIT_CODES[error.code]);
+  }
+  console.error('\n❌ Fatal error:', error);
+  process.exit(1);
+});
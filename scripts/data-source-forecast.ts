@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+
+/**
+ * Data Source Forecast
+ * Forecasts a fleet and its sub-fleets straight from the configured FleetDataSource
+ * (FLEET_DATA_SOURCE=scraper|http|mock) instead of the scraped reports the dashboard reads.
+ *
+ * Usage: npm run data-source-forecast [-- <fleetId>]
+ */
+
+import { config } from 'dotenv';
+import { checkCerebrusHealth, getDataSourceForecast } from '../lib/services/cerebus-api';
+import { getDataSourceConfig } from '../lib/config/data-source';
+import type { ForecastResult } from '../lib/types';
+import { formatCurrency } from '../lib/utils/date-utils';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const FLEET_ID = process.argv[2] || process.env.TEST_FLEET_ID || '8304669';
+
+function printForecast(forecast: ForecastResult, indent = '   ') {
+  console.log(`${indent}${forecast.fleetName} (${forecast.fleetId})`);
+  console.log(`${indent}   Budget ${formatCurrency(forecast.budget, forecast.currency)} | YTD ${formatCurrency(forecast.ytdSpend, forecast.currency)} | Forecast EOY ${formatCurrency(forecast.forecastedEOYSpend, forecast.currency)} | ${forecast.budgetStatus}`);
+}
+
+async function main() {
+  const { kind, fallbackToMock } = getDataSourceConfig();
+  console.log(`\n📡 Data source: ${kind}${fallbackToMock && kind !== 'mock' ? ' (falls back to mock)' : ''}`);
+  console.log(`   Healthy: ${await checkCerebrusHealth() ? 'yes' : 'no'}\n`);
+
+  const forecast = await getDataSourceForecast(FLEET_ID);
+  printForecast(forecast);
+  forecast.subFleets?.forEach(subFleet => printForecast(subFleet, '      '));
+  if (forecast.unallocated) printForecast(forecast.unallocated, '      ');
+
+  if (forecast.rollupCheck) {
+    console.log(`\n   Rollup: ${forecast.rollupMode}${forecast.rollupCheck.childrenExceedParent ? ' ⚠️  sub-fleets exceed the parent' : ''}`);
+  }
+  console.log('');
+}
+
+main().catch(error => {
+  console.error('\n❌ Error:', error instanceof Error ? error.message : error?.message ?? error);
+  process.exit(1);
+});
@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+
+/**
+ * Cerberus Fleet Hierarchy Discovery
+ * Crawls parent / sub-fleet links in Cerberus starting from a root fleet (plus every
+ * fleet in FLEET_IDS) and proposes a FLEET_HIERARCHY, with a diff against
+ * lib/config/fleet-hierarchy.ts listing new, removed and re-parented fleets.
+ *
+ * Usage: npm run discover-hierarchy [-- <rootFleetId>] [--max-depth=5] [--write]
+ *   --write  Overwrite lib/config/fleet-hierarchy.ts with the proposal
+ *
+ * Output goes to reports/discovery/<date>/, outside the dated report directories the app reads
+ */
+
+import { config } from 'dotenv';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { closeBrowser, scrapeFleetHierarchy, validateSession, type ScrapedFleetHierarchy } from '../lib/services/cerberus-scraper';
+import { isScraperError, SCRAPER_EXIT_CODES } from '../lib/services/scraper-errors';
+import { FLEET_HIERARCHY } from '../lib/config/fleet-hierarchy';
+import {
+  buildProposedHierarchy,
+  diffHierarchy,
+  formatHierarchyDiff,
+  hasHierarchyChanges,
+  renderHierarchySource,
+} from '../lib/services/fleet-hierarchy-discovery';
+import { runPool } from '../lib/utils/concurrency';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const args = process.argv.slice(2);
+const CERBERUS_URL = process.env.CERBERUS_URL || 'https://cerberus.cloudtune.amazon.dev';
+const FLEET_IDS = process.env.FLEET_IDS
+  ? process.env.FLEET_IDS.split(',').map(id => id.trim())
+  : ['8304669', '8305082', '8304674', '10089347', '8967127', '3046715'];
+const ROOT_FLEET_ID = args.find(arg => !arg.startsWith('--')) || FLEET_IDS[0];
+const MAX_DEPTH = parseInt(args.find(arg => arg.startsWith('--max-depth='))?.split('=')[1] || '5', 10);
+const WRITE_CONFIG = args.includes('--write');
+const SCRAPE_CONCURRENCY = Math.max(1, parseInt(process.env.SCRAPE_CONCURRENCY || '', 10) || 2);
+
+const CONFIG_PATH = path.join(process.cwd(), 'lib', 'config', 'fleet-hierarchy.ts');
+const reportDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+const reportsDir = path.join(process.cwd(), 'reports', 'discovery', reportDate);
+
+/**
+ * Breadth-first crawl over sub-fleet links, one level at a time
+ * Seeds are the root and every scraped fleet, so fleets outside the root's tree are found too
+ */
+async function crawl(seeds: string[]): Promise<ScrapedFleetHierarchy[]> {
+  const discovered = new Map<string, ScrapedFleetHierarchy>();
+  const failed: string[] = [];
+  let level = Array.from(new Set(seeds));
+
+  for (let depth = 0; depth <= MAX_DEPTH && level.length > 0; depth++) {
+    console.log(`\n🔎 Depth ${depth}: ${level.length} fleet(s)`);
+
+    const results = await runPool(level, SCRAPE_CONCURRENCY, async fleetId => {
+      try {
+        const fleet = await scrapeFleetHierarchy(fleetId, CERBERUS_URL, { artifactsDir: reportsDir });
+        console.log(`   ✅ ${fleet.fleetId} ${fleet.fleetName}` +
+          `${fleet.parentFleetId ? ` | parent ${fleet.parentFleetId}` : ''}` +
+          `${fleet.subFleets.length > 0 ? ` | ${fleet.subFleets.length} sub-fleet(s)` : ''}`);
+        return fleet;
+      } catch (error) {
+        // A missing session fails every fleet the same way - stop the crawl
+        if (isScraperError(error) && (error.code === 'AUTH_REQUIRED' || error.code === 'AUTH_EXPIRED')) {
+          throw error;
+        }
+        console.log(`   ❌ ${fleetId}: ${error instanceof Error ? error.message : error}`);
+        failed.push(fleetId);
+        return null;
+      }
+    });
+
+    results.forEach(fleet => fleet && discovered.set(fleet.fleetId, fleet));
+
+    level = Array.from(new Set(results.flatMap(fleet => fleet?.subFleets || [])))
+      .filter(id => !discovered.has(id) && !failed.includes(id));
+  }
+
+  if (level.length > 0) {
+    console.warn(`\n⚠️  Stopped at --max-depth=${MAX_DEPTH}; ${level.length} fleet(s) not crawled: ${level.join(', ')}`);
+  }
+  if (failed.length > 0) {
+    console.warn(`\n⚠️  Could not read ${failed.length} fleet(s): ${failed.join(', ')} - they will show as removed if configured`);
+  }
+
+  return Array.from(discovered.values());
+}
+
+async function main() {
+  console.log('\n🌳 Cerberus Fleet Hierarchy Discovery');
+  console.log(`Root Fleet: ${ROOT_FLEET_ID}`);
+  console.log(`Cerberus URL: ${CERBERUS_URL}`);
+  console.log(`Max Depth: ${MAX_DEPTH}\n`);
+  console.log('═'.repeat(60));
+
+  console.log('\n🔐 Validating Cerberus session...');
+  await validateSession(CERBERUS_URL, ROOT_FLEET_ID);
+  console.log('✅ Session valid');
+
+  const discovered = await crawl([ROOT_FLEET_ID, ...FLEET_IDS]);
+  await closeBrowser();
+
+  const proposed = buildProposedHierarchy(discovered, FLEET_HIERARCHY);
+  const diff = diffHierarchy(FLEET_HIERARCHY, proposed);
+  const proposedSource = renderHierarchySource(await fs.readFile(CONFIG_PATH, 'utf-8'), proposed);
+
+  await fs.mkdir(reportsDir, { recursive: true });
+  const proposedPath = path.join(reportsDir, 'hierarchy.proposed.ts');
+  const diffPath = path.join(reportsDir, 'hierarchy-diff.json');
+  await fs.writeFile(proposedPath, proposedSource, 'utf-8');
+  await fs.writeFile(diffPath, JSON.stringify({
+    rootFleetId: ROOT_FLEET_ID,
+    discoveredAt: new Date().toISOString(),
+    discovered,
+    proposed,
+    diff,
+  }, null, 2), 'utf-8');
+
+  console.log('\n' + '═'.repeat(60));
+  console.log(`📊 Discovered ${discovered.length} fleet(s); config has ${FLEET_HIERARCHY.length}`);
+  console.log(`   New: ${diff.added.length} | Removed: ${diff.removed.length} | Re-parented: ${diff.reparented.length} | Renamed: ${diff.renamed.length}\n`);
+  console.log(formatHierarchyDiff(diff));
+  console.log(`\n📄 Proposed hierarchy: ${proposedPath}`);
+  console.log(`📄 Diff: ${diffPath}`);
+
+  if (WRITE_CONFIG && hasHierarchyChanges(diff)) {
+    await fs.writeFile(CONFIG_PATH, proposedSource, 'utf-8');
+    console.log(`✏️  Updated ${path.relative(process.cwd(), CONFIG_PATH)}`);
+  } else if (hasHierarchyChanges(diff)) {
+    console.log('💡 Review the proposal, then re-run with --write (or copy it over) to apply');
+  }
+  console.log('═'.repeat(60) + '\n');
+
+  process.exit(0);
+}
+
+main().catch(async error => {
+  await closeBrowser();
+  if (isScraperError(error)) {
+    console.error(`\n❌ ${error.code}: ${error.message}`);
+    process.exit(SCRAPER_EXIT_CODES[error.code]);
+  }
+  console.error('\n❌ Fatal error:', error);
+  process.exit(1);
+});
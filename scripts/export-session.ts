@@ -0,0 +1,41 @@
+#!/usr/bin/env tsx
+
+/**
+ * Export Cerberus Session
+ * Log in once in a visible browser and save cookies + localStorage to a file.
+ * Headless runs load it with CERBERUS_SESSION_FILE.
+ *
+ * Usage: npm run export-session [-- <output-file>]
+ */
+
+import { config } from 'dotenv';
+import { closeBrowser, exportSession } from '../lib/services/cerberus-scraper';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const CERBERUS_URL = process.env.CERBERUS_URL || 'https://cerberus.cloudtune.amazon.dev';
+const TEST_FLEET_ID = process.env.TEST_FLEET_ID || '8304669';
+const OUTPUT_FILE = process.argv[2] || process.env.CERBERUS_SESSION_FILE;
+
+async function main() {
+  console.log('\n🔐 Export Cerberus Session');
+  console.log(`Cerberus URL: ${CERBERUS_URL}`);
+  console.log(`Fleet ID: ${TEST_FLEET_ID}\n`);
+
+  try {
+    const sessionFile = await exportSession(CERBERUS_URL, TEST_FLEET_ID, OUTPUT_FILE);
+
+    console.log(`\n✅ Session saved to: ${sessionFile}`);
+    console.log('   Keep this file private - it grants access to Cerberus as you.');
+    console.log(`   Headless runs: HEADLESS_MODE=true CERBERUS_SESSION_FILE=${sessionFile}\n`);
+    await closeBrowser();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Failed to export session:', error instanceof Error ? error.message : error);
+    await closeBrowser();
+    process.exit(1);
+  }
+}
+
+main();
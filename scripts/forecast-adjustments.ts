@@ -0,0 +1,90 @@
+#!/usr/bin/env tsx
+
+/**
+ * Forecast Adjustments
+ * Records known future changes per fleet in data/forecast-adjustments.json. The dashboard and
+ * API layer them onto the model forecast (baseline vs adjusted EOY).
+ *
+ * Usage:
+ *   npm run adjustments -- list [--fleet=8304669]
+ *   npm run adjustments -- add --fleet=8304669 --type=one-time --date=2026-11-15 --amount=120000 --description="GPU purchase"
+ *   npm run adjustments -- add --fleet=8305082 --type=run-rate --date=2026-12-01 --amount=-15000 --description="Reserved capacity discount"
+ *   npm run adjustments -- remove <id>
+ *
+ *   one-time - amount spent once on the date
+ *   run-rate - monthly spend changes by amount from the date onward (negative for savings / decommissions)
+ */
+
+import { config } from 'dotenv';
+import {
+  ADJUSTMENTS_FILE,
+  addForecastAdjustment,
+  loadForecastAdjustments,
+  removeForecastAdjustment,
+} from '../lib/services/forecast-adjustments';
+import type { ForecastAdjustment } from '../lib/types';
+import { formatCurrency } from '../lib/utils/date-utils';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const [command, ...args] = process.argv.slice(2);
+// Values may contain "=" (descriptions), so only split on the first one
+const getArg = (name: string) => {
+  const arg = args.find(value => value.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+};
+
+function printAdjustment(adjustment: ForecastAdjustment) {
+  const amount = adjustment.type === 'run-rate' ? `${formatCurrency(adjustment.amount)}/month` : formatCurrency(adjustment.amount);
+  console.log(`   ${adjustment.id}  ${adjustment.fleetId}  ${adjustment.date}  ${adjustment.type.padEnd(8)}  ${amount.padStart(16)}  ${adjustment.description}`);
+}
+
+async function main() {
+  switch (command) {
+    case 'list': {
+      const adjustments = await loadForecastAdjustments(getArg('fleet'));
+      console.log(`\n📋 ${adjustments.length} adjustment(s) in ${ADJUSTMENTS_FILE}\n`);
+      adjustments.forEach(printAdjustment);
+      console.log('');
+      break;
+    }
+
+    case 'add': {
+      const amount = getArg('amount');
+      const adjustment = await addForecastAdjustment({
+        fleetId: getArg('fleet') || '',
+        type: getArg('type') as ForecastAdjustment['type'],
+        date: getArg('date') || '',
+        amount: amount === undefined ? NaN : Number(amount),
+        description: getArg('description') || '',
+      });
+      console.log('\n✅ Adjustment added:\n');
+      printAdjustment(adjustment);
+      console.log('');
+      break;
+    }
+
+    case 'remove': {
+      if (!args[0]) {
+        console.error('❌ Usage: npm run adjustments -- remove <id>');
+        process.exit(1);
+      }
+      if (!(await removeForecastAdjustment(args[0]))) {
+        console.error(`❌ No adjustment with id ${args[0]}`);
+        process.exit(1);
+      }
+      console.log(`\n✅ Adjustment ${args[0]} removed\n`);
+      break;
+    }
+
+    default:
+      console.error('❌ Usage: npm run adjustments -- list|add|remove (see scripts/forecast-adjustments.ts)');
+      process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
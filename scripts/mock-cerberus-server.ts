@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local Mock Cerberus Server
+ * Serves the Cerebus JSON API shape (CerebrusApiResponse) so the HTTP data source can be
+ * developed and tested without the real service.
+ *
+ *   GET /health               -> { status: "ok" }
+ *   GET /api/fleets/:fleetId  -> CerebrusApiResponse (mock budget, daily spend, 2 sub-fleets)
+ *
+ * Usage: npm run mock-cerberus [-- --port=4010] [--base-path=/cerebus]
+ *   --base-path  Serve the routes under a path prefix (CEREBUS_API_URL=http://localhost:4010/cerebus)
+ *   then: FLEET_DATA_SOURCE=http CEREBUS_API_URL=http://localhost:4010 npm run data-source-forecast -- 8304669
+ *
+ * Options (env):
+ *   MOCK_CERBERUS_API_KEY   - require "Authorization: Bearer <key>" (401 otherwise)
+ *   MOCK_CERBERUS_LATENCY_MS - delay every response (exercise timeouts)
+ *   MOCK_CERBERUS_FAIL_RATE  - 0-1, share of requests answered with 503
+ */
+
+import { config } from 'dotenv';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { generateMockData } from '../lib/services/mock-data-source';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const PORT = parseInt(process.argv.find(arg => arg.startsWith('--port='))?.split('=')[1] || process.env.MOCK_CERBERUS_PORT || '4010', 10);
+const BASE_PATH = (process.argv.find(arg => arg.startsWith('--base-path='))?.split('=')[1] || '').replace(/\/+$/, '');
+const API_KEY = process.env.MOCK_CERBERUS_API_KEY || '';
+const LATENCY_MS = parseInt(process.env.MOCK_CERBERUS_LATENCY_MS || '0', 10);
+const FAIL_RATE = parseFloat(process.env.MOCK_CERBERUS_FAIL_RATE || '0');
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  if (BASE_PATH) {
+    if (!url.pathname.startsWith(`${BASE_PATH}/`)) {
+      sendJson(res, 404, { message: `No route for ${url.pathname}` });
+      return;
+    }
+    url.pathname = url.pathname.slice(BASE_PATH.length);
+  }
+
+  if (LATENCY_MS > 0) {
+    await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+  }
+
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { message: 'Method not allowed' });
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    sendJson(res, 200, { status: 'ok' });
+    return;
+  }
+
+  if (API_KEY && req.headers.authorization !== `Bearer ${API_KEY}`) {
+    sendJson(res, 401, { message: 'Missing or invalid API key' });
+    return;
+  }
+
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    sendJson(res, 503, { message: 'Simulated Cerberus outage' });
+    return;
+  }
+
+  const fleetMatch = url.pathname.match(/^\/api\/fleets\/([^/]+)$/);
+  if (fleetMatch) {
+    sendJson(res, 200, generateMockData(decodeURIComponent(fleetMatch[1])));
+    return;
+  }
+
+  sendJson(res, 404, { message: `No route for ${url.pathname}` });
+}
+
+const server = createServer((req, res) => {
+  const started = Date.now();
+  handle(req, res)
+    .catch(error => sendJson(res, 500, { message: error instanceof Error ? error.message : String(error) }))
+    .finally(() => console.log(`${req.method} ${req.url} -> ${res.statusCode} (${Date.now() - started}ms)`));
+});
+
+server.listen(PORT, () => {
+  console.log(`\n🧪 Mock Cerberus API listening on http://localhost:${PORT}${BASE_PATH}`);
+  console.log(`   GET /health, GET /api/fleets/:fleetId`);
+  if (API_KEY) console.log('   🔑 API key required');
+  if (LATENCY_MS > 0) console.log(`   🐢 Latency: ${LATENCY_MS}ms`);
+  if (FAIL_RATE > 0) console.log(`   💥 Failure rate: ${(FAIL_RATE * 100).toFixed(0)}%`);
+  console.log('\nPress Ctrl+C to stop\n');
+});
+
+process.on('SIGINT', () => {
+  server.close(() => process.exit(0));
+});
+
+process.on('SIGTERM', () => {
+  server.close(() => process.exit(0));
+});
@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+
+/**
+ * Record Cerberus Fixtures
+ * Scrapes fleets against live Cerberus while recording every page and XHR response
+ * (initial, Full Year and Year to Date states) into fixtures/cerberus/<fleetId>/
+ *
+ * Usage: npm run fixtures:record [-- <fleetId> <fleetId> ...]
+ */
+
+import { config } from 'dotenv';
+import * as path from 'path';
+import { closeBrowser, scrapeCerebusComplete, validateSession } from '../lib/services/cerberus-scraper';
+import { FIXTURES_DIR } from '../lib/services/cerberus-fixtures';
+import { isScraperError, SCRAPER_EXIT_CODES } from '../lib/services/scraper-errors';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+const CERBERUS_URL = process.env.CERBERUS_URL || 'https://cerberus.cloudtune.amazon.dev';
+const FLEET_IDS = process.argv.length > 2
+  ? process.argv.slice(2)
+  : [process.env.TEST_FLEET_ID || '8304669'];
+
+async function main() {
+  console.log('\n🎙️  Recording Cerberus Fixtures');
+  console.log(`Cerberus URL: ${CERBERUS_URL}`);
+  console.log(`Fleets: ${FLEET_IDS.join(', ')}\n`);
+
+  await validateSession(CERBERUS_URL, FLEET_IDS[0]);
+
+  let failed = 0;
+  for (const fleetId of FLEET_IDS) {
+    const fixtureDir = path.join(FIXTURES_DIR, fleetId);
+    try {
+      const data = await scrapeCerebusComplete(fleetId, CERBERUS_URL, { record: fixtureDir });
+      console.log(`✅ Fleet ${fleetId}: recorded (${data.fleetName}) -> ${fixtureDir}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ Fleet ${fleetId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log('\n⚠️  Fixtures contain real budget data - review before sharing them.\n');
+  await closeBrowser();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(async error => {
+  await closeBrowser();
+  if (isScraperError(error)) {
+    console.error(`\n❌ ${error.code}: ${error.message}`);
+    process.exit(SCRAPER_EXIT_CODES[error.code]);
+  }
+  console.error('\n❌ Fatal error:', error);
+  process.exit(1);
+});
@@ -8,9 +8,16 @@
  */
 
 import { config } from 'dotenv';
-import * as path from 'path';
 import { promises as fs } from 'fs';
-import { scrapeCerebusComplete } from '../lib/services/cerberus-scraper';
+import { validateSession } from '../lib/services/cerberus-scraper';
+import { isScraperError, SCRAPER_EXIT_CODES } from '../lib/services/scraper-errors';
+import {
+  createReportRun,
+  generateSummaryReport,
+  scrapeFleetReport,
+  type FleetResult,
+} from '../lib/services/monthly-report';
+import { runPool } from '../lib/utils/concurrency';
 
 // Load environment variables
 config({ path: '.env.local' });
@@ -20,34 +27,11 @@ const CERBERUS_URL = process.env.CERBERUS_URL || 'https://cerberus.cloudtune.ama
 const FLEET_IDS = process.env.FLEET_IDS 
   ? process.env.FLEET_IDS.split(',').map(id => id.trim())
   : ['8304669', '8305082', '8304674', '10089347', '8967127', '3046715'];
+const SCRAPE_CONCURRENCY = Math.max(1, parseInt(process.env.SCRAPE_CONCURRENCY || '', 10) || 2);
 
-// Generate report date (report is for PREVIOUS month, run on 6th)
-const today = new Date();
-const reportDate = today.toISOString().split('T')[0]; // YYYY-MM-DD
-
-// Calculate previous month for report title
-const previousMonth = new Date(today);
-previousMonth.setMonth(previousMonth.getMonth() - 1);
-const reportMonth = previousMonth.toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
-
-interface FleetResult {
-  fleetId: string;
-  fleetName?: string;
-  reportDate: string;
-  fiscalYear?: number;
-  imrGoal?: number;
-  ytdSpend?: number;
-  monthsElapsed?: number;
-  monthlyBurnRate?: number;
-  projectedEOY?: number;
-  variance?: number;
-  variancePercent?: number;
-  percentComplete?: number;
-  isOverBudget?: boolean;
-  scrapingDuration: string;
-  success: boolean;
-  error?: string;
-}
+// Report run for today (report is for PREVIOUS month, run on 6th)
+const run = createReportRun(new Date());
+const { reportDate, reportMonth, reportsDir } = run;
 
 async function scrapeAllFleets() {
   console.log('\n╔═══════════════════════════════════════════════════════════════╗');
@@ -56,14 +40,18 @@ async function scrapeAllFleets() {
   console.log(`📅 Report Date: ${reportDate}`);
   console.log(`📊 Report Period: ${reportMonth}`);
   console.log(`🏢 Fleets to Process: ${FLEET_IDS.length}`);
-  console.log(`🌐 Cerberus URL: ${CERBERUS_URL}\n`);
+  console.log(`🌐 Cerberus URL: ${CERBERUS_URL}`);
+  console.log(`🖥️  Mode: ${process.env.HEADLESS_MODE === 'true' ? 'headless' : 'visible browser'}\n`);
   console.log('═'.repeat(60));
 
-  const results: FleetResult[] = [];
+  // Fail fast on a missing/expired session before touching any fleet
+  console.log('\n🔐 Validating Cerberus session...');
+  await validateSession(CERBERUS_URL, FLEET_IDS[0]);
+  console.log('✅ Session valid');
+
   const startTime = Date.now();
 
   // Create reports directory if it doesn't exist
-  const reportsDir = path.join(process.cwd(), 'reports', reportDate);
   try {
     await fs.mkdir(reportsDir, { recursive: true });
     console.log(`\n📁 Reports will be saved to: ${reportsDir}\n`);
@@ -72,85 +60,20 @@ async function scrapeAllFleets() {
     process.exit(1);
   }
 
-  // Scrape each fleet
-  for (let i = 0; i < FLEET_IDS.length; i++) {
-    const fleetId = FLEET_IDS[i];
-    console.log(`\n[${i + 1}/${FLEET_IDS.length}] Processing Fleet ${fleetId}...`);
-    console.log('─'.repeat(60));
-
-    const fleetStartTime = Date.now();
-
-    try {
-      const data = await scrapeCerebusComplete(fleetId, CERBERUS_URL);
-      const fleetDuration = ((Date.now() - fleetStartTime) / 1000).toFixed(1);
-
-      // Store result
-      const result: FleetResult = {
-        fleetId: data.fleetId,
-        fleetName: data.fleetName,
-        reportDate,
-        fiscalYear: data.fiscalYear,
-        imrGoal: data.imrGoal,
-        ytdSpend: data.ytdSpend,
-        monthsElapsed: data.monthsElapsed,
-        monthlyBurnRate: data.monthlyBurnRate,
-        projectedEOY: data.projectedEOY,
-        variance: data.variance,
-        variancePercent: data.variancePercent,
-        percentComplete: data.percentComplete,
-        isOverBudget: data.isOverBudget,
-        scrapingDuration: fleetDuration,
-        success: true,
-      };
-
-      results.push(result);
-
-      // Save individual fleet JSON
-      const fleetJsonPath = path.join(reportsDir, `fleet-${fleetId}.json`);
-      await fs.writeFile(fleetJsonPath, JSON.stringify(result, null, 2), 'utf-8');
-
-      console.log(`\n✅ Fleet ${fleetId}: SUCCESS (${fleetDuration}s)`);
-      console.log(`   ${data.fleetName}`);
-      console.log(`   IMR Goal: $${data.imrGoal.toLocaleString()}`);
-      console.log(`   YTD Spend: $${data.ytdSpend.toLocaleString()} (${data.percentComplete.toFixed(1)}%)`);
-      console.log(`   Projected EOY: $${data.projectedEOY.toLocaleString()}`);
-      console.log(`   Variance: $${data.variance.toLocaleString()} (${data.variancePercent.toFixed(1)}%)`);
-      console.log(`   Status: ${data.isOverBudget ? '⚠️  OVER Budget' : '✅ UNDER Budget'}`);
-      console.log(`   📄 Saved: fleet-${fleetId}.json`);
-
-    } catch (error: any) {
-      const fleetDuration = ((Date.now() - fleetStartTime) / 1000).toFixed(1);
-
-      const result: FleetResult = {
-        fleetId,
-        reportDate,
-        error: error.message,
-        scrapingDuration: fleetDuration,
-        success: false,
-      };
-
-      results.push(result);
-
-      console.log(`\n❌ Fleet ${fleetId}: FAILED (${fleetDuration}s)`);
-      console.log(`   Error: ${error.message}`);
-
-      // Save error JSON
-      const errorJsonPath = path.join(reportsDir, `fleet-${fleetId}-ERROR.json`);
-      await fs.writeFile(errorJsonPath, JSON.stringify(result, null, 2), 'utf-8');
-    }
-
-    console.log('─'.repeat(60));
-
-    // Delay between fleets
-    if (i < FLEET_IDS.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
-  }
+  // Scrape fleets through a worker pool sharing one browser; results keep FLEET_IDS order
+  console.log(`⚙️  Concurrency: ${SCRAPE_CONCURRENCY} fleet(s) at a time\n`);
+  let completed = 0;
+  const results = await runPool(FLEET_IDS, SCRAPE_CONCURRENCY, async fleetId => {
+    const result = await scrapeFleetReport(fleetId, CERBERUS_URL, run);
+    completed++;
+    console.log(`\n[${completed}/${FLEET_IDS.length} done] Fleet ${fleetId}: ${result.success ? '✅ success' : '❌ failed'} (${result.scrapingDuration}s)`);
+    return result;
+  });
 
   const totalDuration = ((Date.now() - startTime) / 1000).toFixed(1);
 
   // Generate summary report
-  await generateSummaryReport(results, reportsDir, totalDuration);
+  await generateSummaryReport(results, run, totalDuration);
 
   // Display console summary
   displayConsoleSummary(results, totalDuration);
@@ -160,94 +83,6 @@ async function scrapeAllFleets() {
   process.exit(failCount > 0 ? 1 : 0);
 }
 
-async function generateSummaryReport(results: FleetResult[], reportsDir: string, totalDuration: string) {
-  const successfulFleets = results.filter(r => r.success);
-  const failedFleets = results.filter(r => !r.success);
-
-  let report = '';
-  report += '═'.repeat(70) + '\n';
-  report += '              CERBERUS MONTHLY BUDGET REPORT\n';
-  report += '                     ' + reportMonth + '\n';
-  report += '═'.repeat(70) + '\n\n';
-  report += `Report Date: ${reportDate}\n`;
-  report += `Generated: ${new Date().toLocaleString()}\n\n`;
-  report += `Total Fleets: ${results.length}\n`;
-  report += `Successful: ${successfulFleets.length}\n`;
-  report += `Failed: ${failedFleets.length}\n`;
-  report += `Total Time: ${totalDuration}s\n\n`;
-  report += '═'.repeat(70) + '\n';
-
-  if (successfulFleets.length > 0) {
-    report += '\n📊 FLEET SUMMARY\n';
-    report += '═'.repeat(70) + '\n\n';
-
-    let totalIMR = 0;
-    let totalYTD = 0;
-    let totalProjected = 0;
-    let totalVariance = 0;
-
-    successfulFleets.forEach((fleet, index) => {
-      totalIMR += fleet.imrGoal!;
-      totalYTD += fleet.ytdSpend!;
-      totalProjected += fleet.projectedEOY!;
-      totalVariance += fleet.variance!;
-
-      report += `Fleet ${index + 1}: ${fleet.fleetName} (${fleet.fleetId})\n`;
-      report += `─`.repeat(70) + '\n';
-      report += `IMR Goal (Budget):    $${fleet.imrGoal!.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n`;
-      report += `YTD Spend:            $${fleet.ytdSpend!.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${fleet.percentComplete!.toFixed(1)}% of year)\n`;
-      report += `Monthly Burn Rate:    $${fleet.monthlyBurnRate!.toLocaleString('en-US', { maximumFractionDigits: 0 })}/month\n`;
-      report += `Projected EOY:        $${fleet.projectedEOY!.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n`;
-      report += `Variance:             $${fleet.variance!.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${fleet.variancePercent!.toFixed(1)}%)\n`;
-      report += `Status:               ${fleet.isOverBudget ? '⚠️  OVER BUDGET' : '✅ UNDER BUDGET'}\n\n`;
-    });
-
-    report += '═'.repeat(70) + '\n';
-    report += `TOTALS (All ${successfulFleets.length} Fleets)\n`;
-    report += '═'.repeat(70) + '\n';
-    report += `Total IMR Goal:       $${totalIMR.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n`;
-    report += `Total YTD Spend:      $${totalYTD.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n`;
-    report += `Total Projected EOY:  $${totalProjected.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n`;
-    report += `Total Variance:       $${totalVariance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n`;
-    report += `Overall Status:       ${totalProjected > totalIMR ? '⚠️  OVER BUDGET' : '✅ UNDER BUDGET'}\n\n`;
-  }
-
-  if (failedFleets.length > 0) {
-    report += '═'.repeat(70) + '\n';
-    report += '\n❌ FAILED FLEETS\n';
-    report += '═'.repeat(70) + '\n\n';
-
-    failedFleets.forEach((fleet, index) => {
-      report += `${index + 1}. Fleet ${fleet.fleetId}\n`;
-      report += `   Error: ${fleet.error}\n\n`;
-    });
-  }
-
-  report += '═'.repeat(70) + '\n';
-  report += 'END OF REPORT\n';
-  report += '═'.repeat(70) + '\n';
-
-  // Save text report
-  const reportPath = path.join(reportsDir, 'summary-report.txt');
-  await fs.writeFile(reportPath, report, 'utf-8');
-
-  // Save JSON summary
-  const jsonSummaryPath = path.join(reportsDir, 'summary.json');
-  await fs.writeFile(jsonSummaryPath, JSON.stringify({
-    reportDate,
-    reportPeriod: reportMonth,
-    generatedAt: new Date().toISOString(),
-    totalFleets: results.length,
-    successful: successfulFleets.length,
-    failed: failedFleets.length,
-    totalDuration,
-    fleets: results,
-  }, null, 2), 'utf-8');
-
-  console.log(`\n📄 Summary report saved: summary-report.txt`);
-  console.log(`📄 JSON summary saved: summary.json`);
-}
-
 function displayConsoleSummary(results: FleetResult[], totalDuration: string) {
   console.log('\n═'.repeat(60));
   console.log('MONTHLY REPORT COMPLETE');
@@ -258,7 +93,7 @@ function displayConsoleSummary(results: FleetResult[], totalDuration: string) {
 
   console.log(`\n📊 Results: ${successCount}/${results.length} successful`);
   console.log(`⏱️  Total Time: ${totalDuration}s`);
-  console.log(`⏱️  Average: ${(parseFloat(totalDuration) / results.length).toFixed(1)}s per fleet`);
+  console.log(`⏱️  Average: ${(parseFloat(totalDuration) / results.length).toFixed(1)}s per fleet (wall clock, ${SCRAPE_CONCURRENCY} concurrent)`);
 
   if (successCount > 0) {
     const successfulFleets = results.filter(r => r.success);
@@ -273,7 +108,7 @@ function displayConsoleSummary(results: FleetResult[], totalDuration: string) {
   if (failCount > 0) {
     console.log(`\n❌ Failures: ${failCount} fleets`);
     results.filter(r => !r.success).forEach(r => {
-      console.log(`   • ${r.fleetId}: ${r.error}`);
+      console.log(`   • ${r.fleetId}: [${r.errorCode || 'UNKNOWN'}, ${r.attempts ?? 1} attempt(s)] ${r.error}`);
     });
   }
 
@@ -284,6 +119,10 @@ function displayConsoleSummary(results: FleetResult[], totalDuration: string) {
 
 // Run the monthly report
 scrapeAllFleets().catch(error => {
+  if (isScraperError(error)) {
+    console.error(`\n❌ ${error.code}: ${error.message}`);
+    process.exit(SCRAPER_EXIT_CODES[error.code]);
+  }
   console.error('\n❌ Fatal error:', error);
   process.exit(1);
 });
@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+
+/**
+ * HTTP Data Source Tests
+ * Starts the local mock Cerberus server (scripts/mock-cerberus-server.ts) and runs the HTTP
+ * data source's getFleet and checkHealth against it - at the root and under a path prefix.
+ *
+ * Usage: npm run test-http-source
+ */
+
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { spawn, type ChildProcess } from 'child_process';
+import { createServer } from 'net';
+import { createHttpDataSource } from '../lib/services/http-data-source';
+import type { ApiError } from '../lib/types';
+
+const API_KEY = 'test-key';
+const TSX_BIN = path.join(process.cwd(), 'node_modules', '.bin', 'tsx');
+
+interface MockServer {
+  baseUrl: string;
+  process: ChildProcess;
+}
+
+interface TestCase {
+  name: string;
+  run: (baseUrl: string) => Promise<void>;
+}
+
+const TEST_CASES: TestCase[] = [
+  {
+    name: 'checkHealth is true while the server is up',
+    async run(baseUrl) {
+      const source = createHttpDataSource({ baseUrl, apiKey: API_KEY, timeoutMs: 5000 });
+      assert.equal(await source.checkHealth(), true);
+    },
+  },
+  {
+    name: 'getFleet returns the fleet with its sub-fleets',
+    async run(baseUrl) {
+      const source = createHttpDataSource({ baseUrl, apiKey: API_KEY, timeoutMs: 5000 });
+      const fleet = await source.getFleet('8304669');
+      assert.equal(fleet.budget?.fleetId, '8304669');
+      assert.equal(fleet.subFleets?.length, 2);
+      assert.ok((fleet.spend?.length ?? 0) > 0);
+    },
+  },
+  {
+    name: 'getFleet without the API key fails with AUTH_FAILED',
+    async run(baseUrl) {
+      const source = createHttpDataSource({ baseUrl, apiKey: '', timeoutMs: 5000 });
+      await assert.rejects(source.getFleet('8304669'), (error: ApiError) => error.code === 'AUTH_FAILED');
+    },
+  },
+];
+
+/**
+ * A port nothing is listening on
+ */
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+/**
+ * Start the mock server and wait until it listens
+ */
+async function startMockServer(basePath: string): Promise<MockServer> {
+  const port = await findFreePort();
+  const args = ['scripts/mock-cerberus-server.ts', `--port=${port}`, ...(basePath ? [`--base-path=${basePath}`] : [])];
+  const child = spawn(TSX_BIN, args, {
+    env: { ...process.env, MOCK_CERBERUS_API_KEY: API_KEY, MOCK_CERBERUS_LATENCY_MS: '0', MOCK_CERBERUS_FAIL_RATE: '0' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const timeoutId = setTimeout(() => reject(new Error('Mock server did not start within 30s')), 30000);
+    child.stdout?.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) {
+        clearTimeout(timeoutId);
+        resolve();
+      }
+    });
+    child.once('exit', code => {
+      clearTimeout(timeoutId);
+      reject(new Error(`Mock server exited with code ${code}`));
+    });
+  });
+
+  return { baseUrl: `http://localhost:${port}${basePath}`, process: child };
+}
+
+async function stopMockServer(server: MockServer): Promise<void> {
+  if (server.process.exitCode !== null) return;
+  const exited = new Promise(resolve => server.process.once('exit', resolve));
+  server.process.kill('SIGTERM');
+  await exited;
+}
+
+async function runHttpDataSourceTests() {
+  console.log('\n🧪 HTTP Data Source Tests (mock Cerberus server)\n');
+  console.log('═'.repeat(60));
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const basePath of ['', '/cerebus']) {
+    const server = await startMockServer(basePath);
+    try {
+      // The configured URL may or may not end with a slash
+      for (const baseUrl of [server.baseUrl, `${server.baseUrl}/`]) {
+        console.log(`\n🌐 CEREBUS_API_URL=${baseUrl}`);
+        for (const testCase of TEST_CASES) {
+          try {
+            await testCase.run(baseUrl);
+            passed++;
+            console.log(`   ✅ ${testCase.name}`);
+          } catch (error) {
+            failed++;
+            console.log(`   ❌ ${testCase.name}`);
+            console.log(`      ${error instanceof Error ? error.message : (error as ApiError)?.message ?? error}`);
+          }
+        }
+      }
+    } finally {
+      await stopMockServer(server);
+    }
+  }
+
+  console.log('\n' + '═'.repeat(60));
+  console.log(`📊 ${passed} passed, ${failed} failed`);
+  console.log('═'.repeat(60) + '\n');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runHttpDataSourceTests().catch(error => {
+  console.error('\n❌ Fatal error:', error);
+  process.exit(1);
+});
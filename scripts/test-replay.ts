@@ -0,0 +1,158 @@
+#!/usr/bin/env tsx
+
+/**
+ * Offline Scraper Tests (Replay)
+ * Runs the scraper against recorded fixtures - no network, no SSO.
+ * Every fixture in fixtures/cerberus/<fleetId>/ is checked end to end
+ * (scrapeCerebusComplete) and per step (selectPeriodByText + extractors).
+ *
+ * Usage: npm run test-replay
+ */
+
+import assert from 'node:assert/strict';
+import {
+  buildCerberusUrl,
+  closeBrowser,
+  extractIMRGoal,
+  extractSpendHistory,
+  extractYTDSpend,
+  initBrowser,
+  scrapeCerebusComplete,
+  selectPeriodByText,
+} from '../lib/services/cerberus-scraper';
+import { installReplay, listFixtures, readFixtureManifest, type FixtureManifest } from '../lib/services/cerberus-fixtures';
+import { PERIOD_BUTTON_TEXT } from '../lib/config/cerberus-selectors';
+import { getFiscalCalendar } from '../lib/utils/fiscal-calendar';
+import { format } from 'date-fns';
+
+interface TestCase {
+  name: string;
+  run: (fixtureDir: string, manifest: FixtureManifest) => Promise<void>;
+}
+
+const TEST_CASES: TestCase[] = [
+  {
+    name: 'scrapeCerebusComplete returns the recorded values',
+    async run(fixtureDir, manifest) {
+      const data = await scrapeCerebusComplete(manifest.fleetId, manifest.cerberusBaseUrl, {
+        replay: fixtureDir,
+        asOf: new Date(manifest.asOf),
+        interactive: false,
+      });
+      assert.equal(data.fleetName, manifest.expected.fleetName);
+      assert.equal(data.imrGoal, manifest.expected.imrGoal);
+      assert.equal(data.ytdSpend, manifest.expected.ytdSpend);
+      assert.equal(data.spendHistory.length, manifest.expected.spendHistoryRows);
+
+      // Older recordings carry no reporting period or projection - derive them from the calendar
+      const calendar = getFiscalCalendar();
+      const period = calendar.getReportingPeriod(new Date(manifest.asOf));
+      const monthsElapsed = manifest.expected.monthsElapsed ?? period.monthsElapsed;
+      assert.equal(data.fiscalYear, manifest.expected.fiscalYear ?? period.fiscalYear);
+      assert.equal(data.monthsElapsed, monthsElapsed);
+      assert.equal(
+        data.projectedEOY,
+        manifest.expected.projectedEOY ?? manifest.expected.ytdSpend / monthsElapsed * calendar.monthsInYear
+      );
+    },
+  },
+  {
+    name: 'selectPeriodByText + extractors read each period view',
+    async run(fixtureDir, manifest) {
+      const browser = await initBrowser(true);
+      const page = await browser.newPage();
+      try {
+        await installReplay(page, fixtureDir);
+        const asOf = new Date(manifest.asOf);
+        await page.goto(
+          buildCerberusUrl(manifest.cerberusBaseUrl, manifest.fleetId, format(asOf, 'yyyy-MM-01')),
+          { waitUntil: 'networkidle2', timeout: 60000 }
+        );
+
+        await selectPeriodByText(page, PERIOD_BUTTON_TEXT.fullYear);
+        assert.equal(await extractIMRGoal(page), manifest.expected.imrGoal);
+
+        await selectPeriodByText(page, PERIOD_BUTTON_TEXT.yearToDate);
+        const ytdSpend = await extractYTDSpend(page);
+        assert.equal(ytdSpend, manifest.expected.ytdSpend);
+        assert.equal((await extractSpendHistory(page, ytdSpend)).length, manifest.expected.spendHistoryRows);
+      } finally {
+        await page.close();
+      }
+    },
+  },
+];
+
+// Calendar settings of this run, restored for fixtures recorded without one
+const FISCAL_CALENDAR_ENV = {
+  NEXT_PUBLIC_FISCAL_YEAR_START_MONTH: process.env.NEXT_PUBLIC_FISCAL_YEAR_START_MONTH,
+  NEXT_PUBLIC_FISCAL_YEAR_LABEL: process.env.NEXT_PUBLIC_FISCAL_YEAR_LABEL,
+  NEXT_PUBLIC_FISCAL_PERIODS: process.env.NEXT_PUBLIC_FISCAL_PERIODS,
+};
+
+/**
+ * Replay with the fiscal calendar the fixture was recorded with (the calendar is read lazily from the environment)
+ */
+function applyFixtureCalendar(manifest: FixtureManifest): void {
+  const calendar = manifest.fiscalCalendar;
+  const env = calendar
+    ? {
+      NEXT_PUBLIC_FISCAL_YEAR_START_MONTH: String(calendar.startMonth),
+      NEXT_PUBLIC_FISCAL_YEAR_LABEL: calendar.yearLabel,
+      NEXT_PUBLIC_FISCAL_PERIODS: calendar.periods.map(period => `${period.name}:${period.months}`).join(','),
+    }
+    : FISCAL_CALENDAR_ENV;
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+}
+
+async function runReplayTests() {
+  console.log('\n🧪 Offline Scraper Tests (Replay)\n');
+  console.log('═'.repeat(60));
+
+  const fixtures = await listFixtures();
+  if (fixtures.length === 0) {
+    console.log('\n⚠️  No fixtures found in fixtures/cerberus/. Record some with: npm run fixtures:record\n');
+    process.exit(1);
+  }
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const fixtureDir of fixtures) {
+    const manifest = await readFixtureManifest(fixtureDir);
+    console.log(`\n📼 Fleet ${manifest.fleetId} (recorded ${manifest.recordedAt})`);
+    applyFixtureCalendar(manifest);
+
+    for (const testCase of TEST_CASES) {
+      try {
+        await testCase.run(fixtureDir, manifest);
+        passed++;
+        console.log(`   ✅ ${testCase.name}`);
+      } catch (error) {
+        failed++;
+        console.log(`   ❌ ${testCase.name}`);
+        console.log(`      ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  await closeBrowser();
+
+  console.log('\n' + '═'.repeat(60));
+  console.log(`📊 ${passed} passed, ${failed} failed`);
+  console.log('═'.repeat(60) + '\n');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runReplayTests().catch(async error => {
+  await closeBrowser();
+  console.error('\n❌ Fatal error:', error);
+  process.exit(1);
+});